@@ -0,0 +1,153 @@
+import * as core from "@actions/core";
+
+import { writeTokenStateFile } from "./oauth/tokenStore";
+import {
+  decodeJWT,
+  describeRefreshFailure,
+  getAccountId,
+  JWT_CLAIM_PATH,
+  loadTokens,
+  refreshAccessToken,
+  shouldRefreshToken,
+  type TokenState,
+} from "./oauth/tokenManager";
+
+/** Audience of access tokens issued by a Codex CLI (ChatGPT) login. */
+const CHATGPT_TOKEN_AUDIENCE = "https://api.openai.com/v1";
+
+export type CheckOAuthOptions = {
+  /** Override for the OAuth token endpoint. */
+  tokenUrl?: string;
+  /**
+   * Where the refreshed pairs are written.  Refresh tokens are single-use,
+   * so the refresh check only runs when the rotated pair can be kept.
+   */
+  tokenStateFile?: string;
+  /**
+   * Exercise the refresh token even if the access token is still valid.  This
+   * rotates it, so the stored secret has to be updated afterwards.
+   */
+  verifyRefresh?: boolean;
+};
+
+/**
+ * Preflight check of OAuth token pairs before the proxy starts, failing with
+ * a specific message instead of a 401 in the middle of the run.
+ *
+ * Each access token is decoded and its audience, account claim and expiry are
+ * reported.  The refresh token is exercised against the token endpoint when
+ * the access token needs refreshing anyway (or `verifyRefresh` is set); the
+ * rotated pairs are then written to `tokenStateFile` for the proxy to resume
+ * from.
+ */
+export async function checkOAuth(
+  pairs: Array<{ accessToken: string; refreshToken: string }>,
+  options: CheckOAuthOptions = {}
+): Promise<void> {
+  const problems: string[] = [];
+  const states: TokenState[] = [];
+  let refreshed = false;
+
+  for (const [index, pair] of pairs.entries()) {
+    // Every pair is written back, checked or not, so no account is dropped.
+    const state: TokenState = {
+      accessToken: pair.accessToken,
+      refreshToken: pair.refreshToken,
+      expires: 0,
+      accountId: "",
+      tokenUrl: options.tokenUrl,
+    };
+    states.push(state);
+
+    const label = pairs.length > 1 ? `Account #${index + 1}` : "OAuth";
+    const fail = (message: string) => {
+      core.error(`${label}: ${message}`);
+      problems.push(`${label}: ${message}`);
+    };
+
+    const payload = decodeJWT(pair.accessToken);
+    if (payload == null) {
+      fail(
+        "The access token is not a JWT. Use the `access_token` value from ~/.codex/auth.json, not the `id_token` or an API key."
+      );
+      continue;
+    }
+
+    const audiences = [payload.aud ?? []].flat();
+    if (audiences.length > 0 && !audiences.includes(CHATGPT_TOKEN_AUDIENCE)) {
+      fail(
+        `The access token was issued for ${audiences.join(", ")}, not ${CHATGPT_TOKEN_AUDIENCE}. It does not come from a Codex CLI login.`
+      );
+      continue;
+    }
+
+    const claims = payload[JWT_CLAIM_PATH];
+    if (!claims?.chatgpt_account_id) {
+      fail(
+        `The access token has no ${JWT_CLAIM_PATH} chatgpt_account_id claim. Sign in with \`codex login\` using "Sign in with ChatGPT".`
+      );
+      continue;
+    }
+
+    Object.assign(state, loadTokens(pair.accessToken, pair.refreshToken));
+    console.log(
+      `${label}: account ${state.accountId}, plan ${claims.chatgpt_plan_type ?? "unknown"}, access token ${describeExpiry(state.expires)}`
+    );
+
+    if (!pair.refreshToken) {
+      if (shouldRefreshToken(state)) {
+        fail(
+          "The access token has expired and no refresh token was provided."
+        );
+      }
+      continue;
+    }
+
+    if (!shouldRefreshToken(state) && !options.verifyRefresh) {
+      console.log(
+        `${label}: refresh token not exercised; the access token is still valid.`
+      );
+      continue;
+    }
+    if (options.tokenStateFile == null) {
+      core.warning(
+        `${label}: refresh token not exercised; pass --token-state-file so the rotated refresh token is not lost.`
+      );
+      continue;
+    }
+
+    const result = await refreshAccessToken(state.refreshToken, state.tokenUrl);
+    if (result.type === "failed") {
+      fail(describeRefreshFailure(result));
+      continue;
+    }
+    core.setSecret(result.access);
+    core.setSecret(result.refresh);
+    state.accessToken = result.access;
+    state.refreshToken = result.refresh;
+    state.expires = result.expires;
+    state.accountId = getAccountId(result.access);
+    refreshed = true;
+    console.log(
+      `${label}: refresh token works; new access token ${describeExpiry(state.expires)}`
+    );
+  }
+
+  if (refreshed && options.tokenStateFile != null) {
+    // The old refresh tokens are dead now, so keep the new ones even if
+    // another account failed the check.
+    await writeTokenStateFile(options.tokenStateFile, states);
+    console.log(`Rotated token pairs written to ${options.tokenStateFile}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`OAuth preflight check failed:\n${problems.join("\n")}`);
+  }
+}
+
+function describeExpiry(expires: number): string {
+  const minutes = Math.round((expires - Date.now()) / 60_000);
+  return minutes >= 0
+    ? `expires in ${minutes} min`
+    : `expired ${-minutes} min ago`;
+}
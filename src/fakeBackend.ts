@@ -0,0 +1,400 @@
+/**
+ * Fake ChatGPT backend for offline testing of the OAuth proxy.
+ *
+ * Implements just enough of the two upstream endpoints the proxy talks to:
+ * - `POST /backend-api/codex/responses`: answers with scripted replies using
+ *   the SSE protocol that `responseHandler.ts` expects.
+ * - `POST /oauth/token`: issues unsigned JWT access tokens and rotates refresh
+ *   tokens (a refresh token can only be used once, like the real server).
+ *
+ * Usage:
+ *   const backend = createFakeBackend({ serverInfoFile, replies });
+ *   await backend.start();  // binds to a dynamic port, writes server info
+ *   // point the proxy at http://127.0.0.1:<port>/backend-api/codex/responses
+ *   await backend.stop();
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { writeFile } from "node:fs/promises";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A scripted answer to one `/backend-api/codex/responses` request. */
+export type FakeReply =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; name: string; arguments: unknown }
+  /** 404 with a `usage_limit_reached` body, as sent by the real backend. */
+  | { type: "usage_limit"; resets_in_seconds?: number }
+  /** Any non-2xx status with an optional body. */
+  | { type: "http_error"; status: number; body?: string }
+  /** A 200 SSE stream with invalid JSON that never completes. */
+  | { type: "malformed" };
+
+export const FAKE_BACKEND_SCENARIOS: Record<string, FakeReply[]> = {
+  text: [{ type: "text", text: "Hello from the fake ChatGPT backend." }],
+  "tool-call": [
+    {
+      type: "tool_call",
+      name: "shell",
+      arguments: { command: ["echo", "hello"] },
+    },
+    { type: "text", text: "Done." },
+  ],
+  "usage-limit": [{ type: "usage_limit", resets_in_seconds: 60 }],
+  malformed: [{ type: "malformed" }],
+};
+
+export interface FakeBackendOptions {
+  /** Path to the JSON file where `{ port, pid, ... }` will be written. */
+  serverInfoFile: string;
+  /**
+   * Replies served in order; the last one repeats once the script is
+   * exhausted.
+   */
+  replies: FakeReply[];
+  /** Lifetime of issued access tokens, in seconds. */
+  tokenTtlSeconds?: number;
+  /** `chatgpt_account_id` claim of issued access tokens. */
+  accountId?: string;
+}
+
+export interface FakeBackend {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export const FAKE_BACKEND_RESPONSES_PATH = "/backend-api/codex/responses";
+export const FAKE_BACKEND_TOKEN_PATH = "/oauth/token";
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+export function createFakeBackend(options: FakeBackendOptions): FakeBackend {
+  const { serverInfoFile, replies } = options;
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+  const accountId = options.accountId ?? "fake-account";
+
+  if (replies.length === 0) {
+    throw new Error("The fake backend needs at least one scripted reply");
+  }
+
+  let replyIndex = 0;
+  const nextReply = (): FakeReply =>
+    replies[Math.min(replyIndex++, replies.length - 1)];
+
+  // Refresh tokens that may still be exchanged; each is single-use.
+  const validRefreshTokens = new Set<string>();
+  const issueTokens = () => {
+    const refreshToken = `rt_fake_${randomUUID()}`;
+    validRefreshTokens.add(refreshToken);
+    return {
+      access_token: createFakeAccessToken(accountId, tokenTtlSeconds),
+      refresh_token: refreshToken,
+      expires_in: tokenTtlSeconds,
+    };
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((err) => {
+      console.error("[fake-backend] Unhandled error:", err);
+      if (!res.headersSent) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+      }
+      res.end(JSON.stringify({ error: "Internal fake backend error" }));
+    });
+  });
+
+  async function handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const rawBody = await readBody(req);
+    const path = req.url?.split("?")[0];
+    console.log(`[fake-backend] ${req.method} ${req.url}`);
+
+    if (req.method === "POST" && path === FAKE_BACKEND_TOKEN_PATH) {
+      const params = new URLSearchParams(rawBody);
+      const refreshToken = params.get("refresh_token") ?? "";
+      if (
+        params.get("grant_type") !== "refresh_token" ||
+        !validRefreshTokens.delete(refreshToken)
+      ) {
+        sendJson(res, 400, {
+          error: "invalid_grant",
+          error_description: "Refresh token is invalid or was already used",
+        });
+        return;
+      }
+      sendJson(res, 200, issueTokens());
+      return;
+    }
+
+    if (req.method !== "POST" || path !== FAKE_BACKEND_RESPONSES_PATH) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    if (
+      !req.headers.authorization?.startsWith("Bearer ") ||
+      !req.headers["chatgpt-account-id"]
+    ) {
+      sendJson(res, 401, { error: "Missing Authorization or account ID" });
+      return;
+    }
+
+    let model = "gpt-5.1";
+    try {
+      model = (JSON.parse(rawBody) as { model?: string }).model ?? model;
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+      return;
+    }
+
+    sendReply(res, nextReply(), model);
+  }
+
+  return {
+    async start() {
+      await new Promise<void>((resolve, reject) => {
+        server.listen(0, "127.0.0.1", async () => {
+          const addr = server.address();
+          if (!addr || typeof addr === "string") {
+            reject(new Error("Failed to bind server"));
+            return;
+          }
+
+          const port = addr.port;
+          console.log(`[fake-backend] Listening on 127.0.0.1:${port}`);
+
+          // Seed credentials so tests can start the proxy against us.
+          const seed = issueTokens();
+          try {
+            await writeFile(
+              serverInfoFile,
+              JSON.stringify({
+                port,
+                pid: process.pid,
+                responses_url: `http://127.0.0.1:${port}${FAKE_BACKEND_RESPONSES_PATH}`,
+                token_url: `http://127.0.0.1:${port}${FAKE_BACKEND_TOKEN_PATH}`,
+                access_token: seed.access_token,
+                refresh_token: seed.refresh_token,
+              }),
+            );
+            console.log(
+              `[fake-backend] Server info written to ${serverInfoFile}`,
+            );
+          } catch (writeErr) {
+            reject(writeErr);
+            return;
+          }
+
+          resolve();
+        });
+
+        server.on("error", reject);
+      });
+    },
+
+    async stop() {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Replies
+// ---------------------------------------------------------------------------
+
+function sendReply(res: ServerResponse, reply: FakeReply, model: string): void {
+  switch (reply.type) {
+    case "usage_limit":
+      sendJson(res, 404, {
+        error: {
+          type: "usage_limit_reached",
+          message: "The usage limit has been reached",
+          resets_in_seconds: reply.resets_in_seconds ?? 60,
+        },
+      });
+      return;
+    case "http_error":
+      res.writeHead(reply.status, { "Content-Type": "application/json" });
+      res.end(reply.body ?? JSON.stringify({ error: "Scripted error" }));
+      return;
+    case "malformed":
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write("event: response.created\n");
+      res.write('data: {"type":"response.created","response":\n\n');
+      res.end("data: not json at all\n\n");
+      return;
+    case "text":
+    case "tool_call":
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache",
+      });
+      for (const event of buildEvents(reply, model)) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end();
+      return;
+  }
+}
+
+function buildEvents(
+  reply: Extract<FakeReply, { type: "text" | "tool_call" }>,
+  model: string,
+): Array<{ type: string; [key: string]: unknown }> {
+  const responseId = `resp_fake_${randomUUID()}`;
+  const itemId = `item_fake_${randomUUID()}`;
+  const base = {
+    id: responseId,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    model,
+  };
+
+  const events: Array<{ type: string; [key: string]: unknown }> = [
+    {
+      type: "response.created",
+      response: { ...base, status: "in_progress", output: [] },
+    },
+  ];
+
+  let item: Record<string, unknown>;
+  if (reply.type === "text") {
+    item = {
+      id: itemId,
+      type: "message",
+      role: "assistant",
+      status: "completed",
+      content: [{ type: "output_text", text: reply.text, annotations: [] }],
+    };
+    events.push(
+      {
+        type: "response.output_item.added",
+        output_index: 0,
+        item: { ...item, status: "in_progress", content: [] },
+      },
+      {
+        type: "response.content_part.added",
+        item_id: itemId,
+        output_index: 0,
+        content_index: 0,
+        part: { type: "output_text", text: "", annotations: [] },
+      },
+      {
+        type: "response.output_text.delta",
+        item_id: itemId,
+        output_index: 0,
+        content_index: 0,
+        delta: reply.text,
+      },
+      {
+        type: "response.output_text.done",
+        item_id: itemId,
+        output_index: 0,
+        content_index: 0,
+        text: reply.text,
+      },
+    );
+  } else {
+    const args =
+      typeof reply.arguments === "string"
+        ? reply.arguments
+        : JSON.stringify(reply.arguments);
+    item = {
+      id: itemId,
+      type: "function_call",
+      status: "completed",
+      call_id: `call_fake_${randomUUID()}`,
+      name: reply.name,
+      arguments: args,
+    };
+    events.push(
+      {
+        type: "response.output_item.added",
+        output_index: 0,
+        item: { ...item, status: "in_progress", arguments: "" },
+      },
+      {
+        type: "response.function_call_arguments.delta",
+        item_id: itemId,
+        output_index: 0,
+        delta: args,
+      },
+      {
+        type: "response.function_call_arguments.done",
+        item_id: itemId,
+        output_index: 0,
+        arguments: args,
+      },
+    );
+  }
+
+  events.push(
+    { type: "response.output_item.done", output_index: 0, item },
+    {
+      type: "response.completed",
+      response: {
+        ...base,
+        status: "completed",
+        output: [item],
+        usage: {
+          input_tokens: 100,
+          input_tokens_details: { cached_tokens: 0 },
+          output_tokens: 20,
+          output_tokens_details: { reasoning_tokens: 10 },
+          total_tokens: 120,
+        },
+      },
+    },
+  );
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Build an unsigned JWT shaped like a ChatGPT OAuth access token. */
+export function createFakeAccessToken(
+  accountId: string,
+  ttlSeconds: number,
+): string {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({ alg: "none", typ: "JWT" });
+  const payload = encode({
+    iat: now,
+    exp: now + ttlSeconds,
+    aud: ["https://api.openai.com/v1"],
+    "https://api.openai.com/auth": {
+      chatgpt_account_id: accountId,
+      chatgpt_plan_type: "plus",
+    },
+  });
+  return `${header}.${payload}.fake`;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
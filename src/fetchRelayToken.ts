@@ -0,0 +1,26 @@
+import * as core from "@actions/core";
+
+import type { RetryPolicy } from "./oauth/retry";
+import {
+  requestRelayToken,
+  type RelayCredentials,
+} from "./oauth/tokenManager";
+
+/**
+ * Fetch the initial access token for relay mode and publish it as the masked
+ * `access_token` output.  The token is masked before anything else can print
+ * it, and its expiry is logged so a misconfigured relay is easy to spot.
+ */
+export async function fetchRelayToken(
+  relay: RelayCredentials,
+  retryPolicy: RetryPolicy
+): Promise<void> {
+  const token = await requestRelayToken(relay, retryPolicy);
+  core.setSecret(token.accessToken);
+  core.setOutput("access_token", token.accessToken);
+
+  const minutes = Math.floor((token.expires - Date.now()) / 60_000);
+  console.log(
+    `Fetched access token from relay; it expires at ${new Date(token.expires).toISOString()} (in ${minutes} min).`
+  );
+}
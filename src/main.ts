@@ -5,6 +5,11 @@ import * as path from "node:path";
 import pkg from "../package.json" assert { type: "json" };
 
 import { readServerInfo } from "./readServerInfo";
+import { readUsage } from "./readUsage";
+import { fetchRelayToken } from "./fetchRelayToken";
+import { checkOAuth } from "./checkOAuth";
+import { waitForProxy } from "./waitForProxy";
+import { stopProxy } from "./stopProxy";
 import {
   SandboxMode,
   OutputSchemaSource,
@@ -15,9 +20,29 @@ import {
 import { dropSudo } from "./dropSudo";
 import { ensureActorHasWriteAccess } from "./checkActorPermissions";
 import parseArgsStringToArgv from "string-argv";
-import { writeProxyConfig } from "./writeProxyConfig";
+import { type WireApi, writeProxyConfig } from "./writeProxyConfig";
 import { checkOutput } from "./checkOutput";
-import { createOAuthProxy } from "./oauthProxy";
+import { createOAuthProxy, type PlanGating } from "./oauthProxy";
+import {
+  createFakeBackend,
+  FAKE_BACKEND_SCENARIOS,
+  type FakeReply,
+} from "./fakeBackend";
+import { readTokenStateFile } from "./oauth/tokenStore";
+import { writeEncryptedTokenFile } from "./oauth/encryptedTokenStore";
+import { loadTokens } from "./oauth/tokenManager";
+import { createTokenRelay } from "./tokenRelay";
+import type { OidcRule } from "./tokenRelayAuth";
+import { DEFAULT_RETRY_POLICY } from "./oauth/retry";
+import type { ReplayMatch } from "./oauth/replay";
+import type { ApiKeyStyle } from "./oauth/apiKey";
+import { parseStaticHeaders } from "./oauth/localProvider";
+import {
+  createModelResolver,
+  mergeModelMapConfigs,
+  parseModelMapConfig,
+  type ModelMapConfig,
+} from "./oauth/modelMap";
 
 export async function main() {
   const program = new Command();
@@ -31,8 +56,65 @@ export async function main() {
     .command("read-server-info")
     .description("Read server info from the responses API proxy")
     .argument("<serverInfoFile>", "Path to the server info file")
-    .action(async (serverInfoFile: string) => {
-      await readServerInfo(serverInfoFile);
+    .option(
+      "--client-secret-file <FILE>",
+      "Client secret file written by the OAuth proxy; published as a masked output and removed"
+    )
+    .option(
+      "--keep-client-secret-file",
+      "Leave the client secret file in place for a later run that reuses the proxy"
+    )
+    .action(
+      async (
+        serverInfoFile: string,
+        options: { clientSecretFile?: string; keepClientSecretFile?: boolean }
+      ) => {
+        await readServerInfo(
+          serverInfoFile,
+          emptyAsNull(options.clientSecretFile ?? "") ?? undefined,
+          options.keepClientSecretFile === true
+        );
+      }
+    );
+
+  program
+    .command("wait-for-proxy")
+    .description(
+      "Wait until the OAuth proxy has written server info and reports healthy"
+    )
+    .requiredOption("--server-info-file <FILE>", "Path to the server info file")
+    .option(
+      "--timeout-ms <ms>",
+      "How long to wait before failing",
+      parseIntStrict,
+      10_000
+    )
+    .action(async (options: { serverInfoFile: string; timeoutMs: number }) => {
+      await waitForProxy(options.serverInfoFile, options.timeoutMs);
+    });
+
+  program
+    .command("stop-proxy")
+    .description(
+      "Stop the OAuth proxy and wait until it has written its final token state and usage"
+    )
+    .requiredOption("--server-info-file <FILE>", "Path to the server info file")
+    .option(
+      "--timeout-ms <ms>",
+      "How long to wait before failing",
+      parseIntStrict,
+      10_000
+    )
+    .action(async (options: { serverInfoFile: string; timeoutMs: number }) => {
+      await stopProxy(options.serverInfoFile, options.timeoutMs);
+    });
+
+  program
+    .command("read-usage")
+    .description("Publish token usage totals recorded by the OAuth proxy")
+    .argument("<usageFile>", "Path to the usage file")
+    .action(async (usageFile: string) => {
+      await readUsage(usageFile);
     });
 
   program
@@ -87,15 +169,42 @@ export async function main() {
       "Safety strategy to use. One of 'drop-sudo', 'read-only', 'unprivileged-user', or 'unsafe'."
     )
     .option("--working-directory <DIRECTORY>", "Working directory to trust for project-level config")
+    .option(
+      "--codex-user <user>",
+      "User that will own the config when safety strategy is 'unprivileged-user'"
+    )
+    .addOption(
+      new Option(
+        "--wire-api <api>",
+        "API Codex speaks to the proxy: the Responses API or Chat Completions"
+      )
+        .choices(["responses", "chat"])
+        .default("responses")
+    )
     .action(
       async (options: {
         codexHome: string;
         port: number;
         safetyStrategy: string;
         workingDirectory?: string;
+        codexUser?: string;
+        wireApi: WireApi;
       }) => {
         const safetyStrategy = toSafetyStrategy(options.safetyStrategy);
-        await writeProxyConfig(options.codexHome, options.port, safetyStrategy, options.workingDirectory);
+        // Read from the environment rather than argv so it never shows up in
+        // the process list.
+        const clientSecret = emptyAsNull(
+          process.env.CODEX_PROXY_CLIENT_SECRET ?? ""
+        );
+        await writeProxyConfig({
+          codexHome: options.codexHome,
+          port: options.port,
+          safetyStrategy,
+          workingDirectory: options.workingDirectory,
+          clientSecret: clientSecret ?? undefined,
+          codexUser: emptyAsNull(options.codexUser ?? "") ?? undefined,
+          wireApi: options.wireApi,
+        });
       }
     );
 
@@ -308,48 +417,720 @@ export async function main() {
       "--server-info-file <FILE>",
       "Path to write the server info JSON ({ port, pid })"
     )
-    .action(async (options: { serverInfoFile: string }) => {
-      const accessToken = process.env.OAUTH_ACCESS_TOKEN?.trim() ?? "";
-      const refreshToken = process.env.OAUTH_REFRESH_TOKEN?.trim() ?? "";
-      const relayUrl = process.env.TOKEN_RELAY_URL?.trim() ?? "";
-      const relayKey = process.env.TOKEN_RELAY_KEY?.trim() ?? "";
+    .option(
+      "--token-state-file <FILE>",
+      "Path to write the latest OAuth token pair whenever the refresh token rotates"
+    )
+    .option(
+      "--usage-file <FILE>",
+      "Path to write per-model token usage totals (default: <server-info-file>.usage.json)"
+    )
+    .option(
+      "--client-secret-file <FILE>",
+      "Path to write the per-run client secret (default: <server-info-file>.secret)"
+    )
+    .option(
+      "--max-retries <count>",
+      "Retries for transient upstream failures (network errors, 502/503/504, 429 with Retry-After)",
+      parseIntStrict,
+      DEFAULT_RETRY_POLICY.maxRetries
+    )
+    .option(
+      "--retry-base-delay-ms <ms>",
+      "Delay before the first retry; doubled on every subsequent retry",
+      parseIntStrict,
+      DEFAULT_RETRY_POLICY.baseDelayMs
+    )
+    .option(
+      "--max-total-tokens <count>",
+      "Refuse further requests once this many tokens have been used",
+      parseIntStrict
+    )
+    .option(
+      "--max-requests <count>",
+      "Refuse further requests once this many have been forwarded upstream",
+      parseIntStrict
+    )
+    .option(
+      "--transcript-file <FILE>",
+      "Path to a JSONL file where every upstream exchange is recorded (credentials redacted)"
+    )
+    .option(
+      "--replay <FILE>",
+      "Serve responses from a recorded transcript instead of the ChatGPT backend (no OAuth tokens needed)"
+    )
+    .addOption(
+      new Option(
+        "--replay-match <strategy>",
+        "How requests are paired with recorded exchanges in replay mode"
+      )
+        .choices(["order", "hash"])
+        .default("order")
+    )
+    .option(
+      "--response-store-dir <DIR>",
+      "Directory where completed responses are stored for previous_response_id, item references and GET /v1/responses/{id}"
+    )
+    .option(
+      "--backend-url <URL>",
+      "Override the ChatGPT backend responses URL (e.g. an egress gateway or a local fake backend)",
+      parseHttpUrl
+    )
+    .option(
+      "--token-url <URL>",
+      "Override the OAuth token endpoint used to refresh access tokens",
+      parseHttpUrl
+    )
+    .option(
+      "--relay-oidc-audience <AUDIENCE>",
+      "Authenticate to the token relay with a GitHub Actions OIDC ID token for this audience instead of TOKEN_RELAY_KEY"
+    )
+    .addOption(
+      new Option(
+        "--plan-gating <mode>",
+        "What to do when the requested model is not included in the account's ChatGPT plan"
+      )
+        .choices(["off", "reject", "downgrade"])
+        .default("off")
+    )
+    .option(
+      "--plan-fallback-model <model>",
+      "Model used instead of one the plan does not include (with --plan-gating downgrade)"
+    )
+    .option(
+      "--model-map <JSON>",
+      "Custom model mappings merged over the built-in model map (and --model-map-file)"
+    )
+    .option(
+      "--model-map-file <FILE>",
+      "JSON file with custom model mappings merged over the built-in model map"
+    )
+    .option(
+      "--model-fallbacks <models>",
+      "Comma-separated models to retry with, in order, when the backend reports the requested model as not found or not supported",
+      parseModelList,
+      []
+    )
+    .option(
+      "--api-key-stdin",
+      "API-key mode: read an OpenAI or Azure OpenAI API key from stdin and forward to the Responses API instead of the ChatGPT backend"
+    )
+    .option(
+      "--upstream-url <URL>",
+      "API-key mode: Responses API endpoint (default https://api.openai.com/v1/responses)",
+      parseHttpUrl
+    )
+    .addOption(
+      new Option(
+        "--api-key-style <style>",
+        "API-key mode: send the key as `Authorization: Bearer` (openai) or `api-key` (azure); detected from the endpoint by default"
+      ).choices(["openai", "azure"])
+    )
+    .option(
+      "--api-version <VERSION>",
+      "API-key mode: Azure OpenAI api-version query parameter"
+    )
+    .option(
+      "--local-provider-url <URL>",
+      "Local provider mode: forward unchanged to the OpenAI-compatible API at this base URL (e.g. http://vllm:8000/v1), with static headers from LOCAL_PROVIDER_HEADERS",
+      parseHttpUrl
+    )
+    .option(
+      "--resume-token-state",
+      "Start from the token pairs in --token-state-file instead of the environment if that file exists (e.g. written by check-oauth)"
+    )
+    .action(
+      async (options: {
+        serverInfoFile: string;
+        tokenStateFile?: string;
+        usageFile?: string;
+        clientSecretFile?: string;
+        maxRetries: number;
+        retryBaseDelayMs: number;
+        maxTotalTokens?: number;
+        maxRequests?: number;
+        transcriptFile?: string;
+        replay?: string;
+        replayMatch: ReplayMatch;
+        responseStoreDir?: string;
+        backendUrl?: string;
+        tokenUrl?: string;
+        relayOidcAudience?: string;
+        resumeTokenState?: boolean;
+        planGating: PlanGating["mode"];
+        planFallbackModel?: string;
+        modelMap?: string;
+        modelMapFile?: string;
+        modelFallbacks: string[];
+        apiKeyStdin?: boolean;
+        upstreamUrl?: string;
+        apiKeyStyle?: ApiKeyStyle;
+        apiVersion?: string;
+        localProviderUrl?: string;
+      }) => {
+        if (options.apiKeyStdin && options.localProviderUrl) {
+          throw new Error(
+            "--api-key-stdin and --local-provider-url cannot be combined"
+          );
+        }
+        if (options.apiKeyStdin || options.localProviderUrl) {
+          // These only apply to the ChatGPT backend; reject them rather than
+          // silently ignoring them.
+          const oauthOnly = (
+            [
+              ["--replay", options.replay != null],
+              ["--response-store-dir", options.responseStoreDir != null],
+              ["--token-state-file", options.tokenStateFile != null],
+              ["--resume-token-state", options.resumeTokenState === true],
+              ["--backend-url", options.backendUrl != null],
+              ["--token-url", options.tokenUrl != null],
+              ["--relay-oidc-audience", options.relayOidcAudience != null],
+              ["--plan-gating", options.planGating !== "off"],
+              ["--plan-fallback-model", options.planFallbackModel != null],
+              ["--model-map", options.modelMap != null],
+              ["--model-map-file", options.modelMapFile != null],
+              ["--model-fallbacks", options.modelFallbacks.length > 0],
+            ] as const
+          )
+            .filter(([, given]) => given)
+            .map(([flag]) => flag);
+          if (oauthOnly.length > 0) {
+            throw new Error(
+              `${oauthOnly.join(", ")} cannot be combined with ${
+                options.apiKeyStdin ? "--api-key-stdin" : "--local-provider-url"
+              }`
+            );
+          }
+
+          // Read from the environment rather than argv since the headers
+          // may carry credentials.
+          const localHeaders = emptyAsNull(
+            process.env.LOCAL_PROVIDER_HEADERS?.trim() ?? ""
+          );
+          const proxy = createOAuthProxy({
+            serverInfoFile: options.serverInfoFile,
+            accessToken: "",
+            refreshToken: "",
+            apiKey: options.apiKeyStdin
+              ? {
+                  key: await readStdin(),
+                  url: options.upstreamUrl,
+                  style: options.apiKeyStyle,
+                  apiVersion:
+                    emptyAsNull(options.apiVersion ?? "") ?? undefined,
+                }
+              : undefined,
+            local: options.localProviderUrl
+              ? {
+                  baseUrl: options.localProviderUrl,
+                  headers: localHeaders
+                    ? parseStaticHeaders(localHeaders, "LOCAL_PROVIDER_HEADERS")
+                    : undefined,
+                }
+              : undefined,
+            usageFile: options.usageFile,
+            clientSecretFile: options.clientSecretFile,
+            retryPolicy: {
+              ...DEFAULT_RETRY_POLICY,
+              maxRetries: options.maxRetries,
+              baseDelayMs: options.retryBaseDelayMs,
+            },
+            budget:
+              options.maxTotalTokens != null || options.maxRequests != null
+                ? {
+                    maxTotalTokens: options.maxTotalTokens,
+                    maxRequests: options.maxRequests,
+                  }
+                : undefined,
+            transcriptFile: options.transcriptFile,
+          });
+          await proxy.start();
+
+          const shutdown = async () => {
+            console.log("[oauth-proxy] Shutting down...");
+            await proxy.stop();
+            process.exit(0);
+          };
+          process.on("SIGTERM", shutdown);
+          process.on("SIGINT", shutdown);
+          return;
+        }
+
+        let pool = oauthPairsFromEnv();
+        if (options.resumeTokenState && options.tokenStateFile) {
+          const saved = await readTokenStateFile(options.tokenStateFile);
+          if (saved) {
+            // e.g. check-oauth already rotated the pairs from the environment
+            pool = (saved.accounts ?? [saved]).map((pair) => ({
+              accessToken: pair.access_token,
+              refreshToken: pair.refresh_token,
+            }));
+            console.log(
+              `[oauth-proxy] Resuming token state from ${options.tokenStateFile}`
+            );
+          }
+        }
+        const [primary, ...extraAccounts] = pool;
+        const accessToken = primary?.accessToken ?? "";
+        const refreshToken = primary?.refreshToken ?? "";
+        const relayUrl = process.env.TOKEN_RELAY_URL?.trim() ?? "";
+        const relayKey = process.env.TOKEN_RELAY_KEY?.trim() ?? "";
+        const relayAudience = emptyAsNull(options.relayOidcAudience ?? "");
+        const replay = options.replay
+          ? { file: options.replay, match: options.replayMatch }
+          : undefined;
+
+        // Replay mode never contacts the backend, so tokens are optional.
+        if (!replay && !accessToken) {
+          throw new Error(
+            "OAUTH_ACCESS_TOKEN or OAUTH_ACCOUNTS environment variable must be set."
+          );
+        }
+
+        // In relay mode, refresh token is not required (relay handles refreshes)
+        if (!replay && !relayUrl && !refreshToken) {
+          throw new Error(
+            "OAUTH_REFRESH_TOKEN or TOKEN_RELAY_URL must be set."
+          );
+        }
+
+        if (!replay && relayUrl && !relayKey && !relayAudience) {
+          throw new Error(
+            "TOKEN_RELAY_KEY or --relay-oidc-audience must be set in relay mode."
+          );
+        }
+
+        const proxy = createOAuthProxy({
+          serverInfoFile: options.serverInfoFile,
+          accessToken,
+          refreshToken,
+          extraAccounts,
+          relayUrl: relayUrl || undefined,
+          relayKey: relayKey || undefined,
+          relayAudience: relayAudience ?? undefined,
+          tokenStateFile: options.tokenStateFile,
+          usageFile: options.usageFile,
+          clientSecretFile: options.clientSecretFile,
+          retryPolicy: {
+            ...DEFAULT_RETRY_POLICY,
+            maxRetries: options.maxRetries,
+            baseDelayMs: options.retryBaseDelayMs,
+          },
+          budget:
+            options.maxTotalTokens != null || options.maxRequests != null
+              ? {
+                  maxTotalTokens: options.maxTotalTokens,
+                  maxRequests: options.maxRequests,
+                }
+              : undefined,
+          planGating: {
+            mode: options.planGating,
+            fallbackModel:
+              emptyAsNull(options.planFallbackModel ?? "") ?? undefined,
+          },
+          modelMap: await loadModelMap(options),
+          modelFallbacks: options.modelFallbacks,
+          transcriptFile: options.transcriptFile,
+          replay,
+          responseStoreDir: options.responseStoreDir,
+          backendUrl: options.backendUrl,
+          tokenUrl: options.tokenUrl,
+        });
+
+        await proxy.start();
+
+        // Keep the process running; action.yml backgrounds this with &
+        const shutdown = async () => {
+          console.log("[oauth-proxy] Shutting down...");
+          await proxy.stop();
+          process.exit(0);
+        };
+        process.on("SIGTERM", shutdown);
+        process.on("SIGINT", shutdown);
+      }
+    );
+
+  program
+    .command("start-fake-backend")
+    .description(
+      "Start a local fake ChatGPT backend with scripted replies for offline testing"
+    )
+    .requiredOption(
+      "--server-info-file <FILE>",
+      "Path to write the server info JSON ({ port, pid, responses_url, token_url, access_token, refresh_token })"
+    )
+    .addOption(
+      new Option("--scenario <name>", "Built-in reply script to serve")
+        .choices(Object.keys(FAKE_BACKEND_SCENARIOS))
+        .default("text")
+    )
+    .option(
+      "--script <FILE>",
+      "JSON file with an array of replies to serve in order (overrides --scenario)"
+    )
+    .option(
+      "--token-ttl <seconds>",
+      "Lifetime of issued access tokens",
+      parseIntStrict,
+      3600
+    )
+    .action(
+      async (options: {
+        serverInfoFile: string;
+        scenario: string;
+        script?: string;
+        tokenTtl: number;
+      }) => {
+        const replies: Array<FakeReply> =
+          options.script != null
+            ? JSON.parse(await fs.readFile(options.script, "utf8"))
+            : FAKE_BACKEND_SCENARIOS[options.scenario];
+        if (!Array.isArray(replies)) {
+          throw new Error(
+            `Fake backend script ${options.script} must contain a JSON array of replies.`
+          );
+        }
+
+        const backend = createFakeBackend({
+          serverInfoFile: options.serverInfoFile,
+          replies,
+          tokenTtlSeconds: options.tokenTtl,
+        });
+        await backend.start();
+
+        const shutdown = async () => {
+          console.log("[fake-backend] Shutting down...");
+          await backend.stop();
+          process.exit(0);
+        };
+        process.on("SIGTERM", shutdown);
+        process.on("SIGINT", shutdown);
+      }
+    );
+
+  program
+    .command("list-models")
+    .description(
+      "Print the model mappings the OAuth proxy resolves requested models with"
+    )
+    .argument("[models...]", "Model names to resolve instead of listing all")
+    .option(
+      "--model-map <JSON>",
+      "Custom model mappings merged over the built-in model map (and --model-map-file)"
+    )
+    .option(
+      "--model-map-file <FILE>",
+      "JSON file with custom model mappings merged over the built-in model map"
+    )
+    .option("--json", "Print the resolved mappings as JSON")
+    .action(
+      async (
+        models: string[],
+        options: { modelMap?: string; modelMapFile?: string; json?: boolean }
+      ) => {
+        const resolver = createModelResolver(await loadModelMap(options));
+        if (models.length > 0) {
+          for (const model of models) {
+            console.log(`${model} -> ${resolver.normalize(model)}`);
+          }
+          return;
+        }
+
+        if (options.json) {
+          console.log(
+            JSON.stringify(
+              {
+                models: Object.fromEntries(
+                  resolver
+                    .mappings()
+                    .map(({ name, model }) => [name, model])
+                ),
+                patterns: resolver
+                  .patterns()
+                  .map(({ match, model }) => ({ match, model })),
+              },
+              null,
+              2
+            )
+          );
+          return;
+        }
+
+        const custom = (entry: { custom: boolean }) =>
+          entry.custom ? " (custom)" : "";
+        const mappings = resolver.mappings();
+        const width = Math.max(...mappings.map(({ name }) => name.length));
+        console.log("Exact mappings:");
+        for (const entry of mappings) {
+          console.log(
+            `  ${entry.name.padEnd(width)} -> ${entry.model}${custom(entry)}`
+          );
+        }
+        console.log("\nPatterns, tried in order for other names (substring match):");
+        for (const entry of resolver.patterns()) {
+          console.log(
+            `  ${[entry.match].flat().join(" | ")} -> ${entry.model}${custom(entry)}`
+          );
+        }
+      }
+    );
 
-      if (!accessToken) {
+  program
+    .command("check-oauth")
+    .description(
+      "Check the OAuth tokens in OAUTH_ACCESS_TOKEN/OAUTH_REFRESH_TOKEN/OAUTH_ACCOUNTS before starting the proxy"
+    )
+    .option(
+      "--token-state-file <FILE>",
+      "Where rotated token pairs are written if the refresh token is exercised"
+    )
+    .option(
+      "--verify-refresh",
+      "Exercise the refresh token even if the access token is still valid (rotates it)"
+    )
+    .option(
+      "--token-url <URL>",
+      "Override the OAuth token endpoint used to refresh access tokens",
+      parseHttpUrl
+    )
+    .action(
+      async (options: {
+        tokenStateFile?: string;
+        verifyRefresh?: boolean;
+        tokenUrl?: string;
+      }) => {
+        const pairs = oauthPairsFromEnv();
+        if (pairs.length === 0) {
+          throw new Error(
+            "OAUTH_ACCESS_TOKEN or OAUTH_ACCOUNTS environment variable must be set."
+          );
+        }
+        await checkOAuth(pairs, {
+          tokenUrl: options.tokenUrl,
+          tokenStateFile: emptyAsNull(options.tokenStateFile ?? "") ?? undefined,
+          verifyRefresh: options.verifyRefresh,
+        });
+      }
+    );
+
+  program
+    .command("fetch-relay-token")
+    .description(
+      "Fetch an access token from the token relay at TOKEN_RELAY_URL and publish it as a masked output"
+    )
+    .option(
+      "--oidc-audience <AUDIENCE>",
+      "Authenticate with a GitHub Actions OIDC ID token for this audience instead of TOKEN_RELAY_KEY"
+    )
+    .option(
+      "--max-retries <count>",
+      "Retries after network errors and 502/503/504 responses",
+      parseIntStrict,
+      DEFAULT_RETRY_POLICY.maxRetries
+    )
+    .action(async (options: { oidcAudience?: string; maxRetries: number }) => {
+      const url = parseHttpUrl(process.env.TOKEN_RELAY_URL ?? "");
+      if (url == null) {
+        throw new Error("TOKEN_RELAY_URL environment variable must be set.");
+      }
+      const key = emptyAsNull(process.env.TOKEN_RELAY_KEY?.trim() ?? "");
+      const audience = emptyAsNull(options.oidcAudience ?? "");
+      if (key == null && audience == null) {
         throw new Error(
-          "OAUTH_ACCESS_TOKEN environment variable must be set."
+          "TOKEN_RELAY_KEY or --oidc-audience must be set to authenticate to the relay."
         );
       }
+      await fetchRelayToken(
+        { url, key: key ?? undefined, audience: audience ?? undefined },
+        { ...DEFAULT_RETRY_POLICY, maxRetries: options.maxRetries }
+      );
+    });
 
-      // In relay mode, refresh token is not required (relay handles refreshes)
-      if (!relayUrl && !refreshToken) {
+  program
+    .command("init-token-relay")
+    .description(
+      "Encrypt the OAuth token pair from OAUTH_ACCESS_TOKEN/OAUTH_REFRESH_TOKEN into a token relay store"
+    )
+    .requiredOption("--store-file <FILE>", "Encrypted token file to write")
+    .action(async (options: { storeFile: string }) => {
+      const accessToken = process.env.OAUTH_ACCESS_TOKEN?.trim() ?? "";
+      const refreshToken = process.env.OAUTH_REFRESH_TOKEN?.trim() ?? "";
+      if (!accessToken || !refreshToken) {
         throw new Error(
-          "OAUTH_REFRESH_TOKEN or TOKEN_RELAY_URL must be set."
+          "OAUTH_ACCESS_TOKEN and OAUTH_REFRESH_TOKEN environment variables must be set."
         );
       }
 
-      const proxy = createOAuthProxy({
-        serverInfoFile: options.serverInfoFile,
-        accessToken,
-        refreshToken,
-        relayUrl: relayUrl || undefined,
-        relayKey: relayKey || undefined,
+      // Validates the access token and reads its expiry.
+      const state = loadTokens(accessToken, refreshToken);
+      await writeEncryptedTokenFile(options.storeFile, relayPassphrase(), {
+        access_token: state.accessToken,
+        refresh_token: state.refreshToken,
+        expires_at: state.expires,
       });
+      console.log(`Encrypted token pair written to ${options.storeFile}`);
+    });
+
+  program
+    .command("serve-token-relay")
+    .description(
+      "Serve short-lived OAuth access tokens to relay-mode workflows from an encrypted token store"
+    )
+    .requiredOption(
+      "--store-file <FILE>",
+      "Encrypted token file written by init-token-relay"
+    )
+    .requiredOption(
+      "--audit-log <FILE>",
+      "JSONL file recording which relay key or workflow fetched a token and when"
+    )
+    .option("--host <HOST>", "Address to listen on", "127.0.0.1")
+    .option("--port <port>", "Port to listen on", parseIntStrict, 8787)
+    .option(
+      "--token-url <URL>",
+      "Override the OAuth token endpoint used to refresh access tokens",
+      parseHttpUrl
+    )
+    .option(
+      "--oidc-audience <AUDIENCE>",
+      "Accept GitHub Actions OIDC ID tokens issued for this audience"
+    )
+    .option(
+      "--oidc-rules <FILE>",
+      "JSON array of rules matching the repository, ref and workflow claims of accepted ID tokens"
+    )
+    .option(
+      "--oidc-issuer <URL>",
+      "Override the OIDC issuer (defaults to GitHub Actions)",
+      parseHttpUrl
+    )
+    .action(
+      async (options: {
+        storeFile: string;
+        auditLog: string;
+        host: string;
+        port: number;
+        tokenUrl?: string;
+        oidcAudience?: string;
+        oidcRules?: string;
+        oidcIssuer?: string;
+      }) => {
+        const audience = emptyAsNull(options.oidcAudience ?? "");
+        if ((audience == null) !== (options.oidcRules == null)) {
+          throw new Error(
+            "--oidc-audience and --oidc-rules must be given together."
+          );
+        }
+        const oidc =
+          audience != null
+            ? {
+                audience,
+                rules: parseOidcRules(
+                  await fs.readFile(options.oidcRules!, "utf8")
+                ),
+                issuer: options.oidcIssuer,
+              }
+            : undefined;
+        const keysJson = process.env.TOKEN_RELAY_KEYS?.trim() ?? "";
+        // Keys are optional once workflows can authenticate with OIDC.
+        const keys =
+          keysJson || !oidc ? parseRelayKeys(keysJson) : undefined;
+
+        const relay = createTokenRelay({
+          storeFile: options.storeFile,
+          passphrase: relayPassphrase(),
+          keys,
+          oidc,
+          auditLogFile: options.auditLog,
+          host: options.host,
+          port: options.port,
+          tokenUrl: options.tokenUrl,
+        });
+        await relay.start();
+
+        const shutdown = async () => {
+          console.log("[token-relay] Shutting down...");
+          await relay.stop();
+          process.exit(0);
+        };
+        process.on("SIGTERM", shutdown);
+        process.on("SIGINT", shutdown);
+      }
+    );
+
+  program
+    .command("export-oauth-tokens")
+    .description(
+      "Publish the OAuth token pair persisted by the proxy as step outputs"
+    )
+    .requiredOption(
+      "--token-state-file <FILE>",
+      "Path to the token state file written by start-oauth-proxy"
+    )
+    .action(async (options: { tokenStateFile: string }) => {
+      const originalRefreshTokens = new Set(
+        [
+          process.env.OAUTH_REFRESH_TOKEN?.trim() ?? "",
+          ...parseOAuthAccounts(process.env.OAUTH_ACCOUNTS ?? "").map(
+            (account) => account.refreshToken
+          ),
+        ].filter((token) => token.length > 0)
+      );
+      const state = await readTokenStateFile(options.tokenStateFile);
+
+      const { setOutput, setSecret } = await import("@actions/core");
+      if (state == null) {
+        console.log(
+          `No token state found at ${options.tokenStateFile}; nothing to export.`
+        );
+        setOutput("oauth-tokens-rotated", "false");
+        return;
+      }
 
-      await proxy.start();
+      const pairs = state.accounts ?? [state];
+      for (const pair of pairs) {
+        setSecret(pair.access_token);
+        setSecret(pair.refresh_token);
+      }
+      setOutput("oauth-access-token", state.access_token);
+      setOutput("oauth-refresh-token", state.refresh_token);
+      if (state.accounts) {
+        setOutput(
+          "oauth-accounts",
+          JSON.stringify(
+            state.accounts.map(({ access_token, refresh_token }) => ({
+              access_token,
+              refresh_token,
+            }))
+          )
+        );
+      }
 
-      // Keep the process running; action.yml backgrounds this with &
-      const shutdown = () => {
-        console.log("[oauth-proxy] Shutting down...");
-        proxy.stop();
-        process.exit(0);
-      };
-      process.on("SIGTERM", shutdown);
-      process.on("SIGINT", shutdown);
+      const rotated = pairs.some(
+        (pair) => !originalRefreshTokens.has(pair.refresh_token)
+      );
+      setOutput("oauth-tokens-rotated", rotated ? "true" : "false");
+      if (rotated) {
+        console.log(
+          state.accounts
+            ? "OAuth refresh tokens were rotated during this run; update the stored secrets from the `oauth-accounts` output."
+            : "The OAuth refresh token was rotated during this run; update the stored secret from the `oauth-refresh-token` output."
+        );
+      }
     });
 
   program.parse();
 }
 
+/** Read all of stdin, e.g. a secret piped in so it stays out of argv and env. */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8").trim();
+}
+
 function parseIntStrict(value: string): number {
   const parsed = parseInt(value, 10);
   if (isNaN(parsed)) {
@@ -358,6 +1139,203 @@ function parseIntStrict(value: string): number {
   return parsed;
 }
 
+/** Parse a comma-separated model list such as `gpt-5.3-codex,gpt-5.2-codex`. */
+function parseModelList(value: string): string[] {
+  return value
+    .split(",")
+    .map((model) => model.trim())
+    .filter((model) => model.length > 0);
+}
+
+/** Parse an absolute http(s) URL; empty values mean "use the default". */
+function parseHttpUrl(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid URL: ${value}`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`URL must use http or https: ${value}`);
+  }
+  if (url.username || url.password) {
+    throw new Error(`URL must not contain credentials: ${url.host}`);
+  }
+  return url.toString();
+}
+
+/** Passphrase of the token relay store, from `TOKEN_RELAY_PASSPHRASE`. */
+function relayPassphrase(): string {
+  const passphrase = process.env.TOKEN_RELAY_PASSPHRASE ?? "";
+  if (passphrase.length < 16) {
+    throw new Error(
+      "TOKEN_RELAY_PASSPHRASE environment variable must be set to at least 16 characters."
+    );
+  }
+  return passphrase;
+}
+
+/**
+ * Parse the `TOKEN_RELAY_KEYS` JSON object mapping key names (recorded in the
+ * audit log) to relay keys.
+ */
+function parseRelayKeys(value: string): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(
+      'TOKEN_RELAY_KEYS must be a JSON object such as {"ci": "<key>"}'
+    );
+  }
+  if (parsed == null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(
+      'TOKEN_RELAY_KEYS must be a JSON object such as {"ci": "<key>"}'
+    );
+  }
+  for (const [name, key] of Object.entries(parsed)) {
+    if (typeof key !== "string" || key.length < 16) {
+      throw new Error(
+        `Relay key "${name}" must be a string of at least 16 characters`
+      );
+    }
+  }
+  return parsed as Record<string, string>;
+}
+
+/**
+ * Custom model mappings from `--model-map-file` and then `--model-map`, or
+ * `undefined` if neither is given.
+ */
+async function loadModelMap(options: {
+  modelMap?: string;
+  modelMapFile?: string;
+}): Promise<ModelMapConfig | undefined> {
+  const configs: ModelMapConfig[] = [];
+  const file = emptyAsNull(options.modelMapFile ?? "");
+  if (file != null) {
+    const contents = await fs.readFile(file, "utf8");
+    configs.push(parseModelMapConfig(parseJson(contents, file), file));
+  }
+  const inline = emptyAsNull(options.modelMap ?? "");
+  if (inline != null) {
+    configs.push(
+      parseModelMapConfig(parseJson(inline, "--model-map"), "--model-map")
+    );
+  }
+  return configs.length > 0 ? mergeModelMapConfigs(configs) : undefined;
+}
+
+function parseJson(value: string, source: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (err) {
+    throw new Error(`${source} is not valid JSON: ${(err as Error).message}`);
+  }
+}
+
+/** Parse the `--oidc-rules` file of the token relay. */
+function parseOidcRules(value: string): OidcRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("--oidc-rules must contain a JSON array of rules");
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("--oidc-rules must contain a non-empty JSON array of rules");
+  }
+  return parsed.map((rule, index) => {
+    if (rule == null || typeof rule !== "object" || Array.isArray(rule)) {
+      throw new Error(`OIDC rule #${index + 1} must be an object`);
+    }
+    const { name, repository, ref, workflow } = rule as Record<
+      string,
+      unknown
+    >;
+    for (const [field, fieldValue] of Object.entries({
+      repository,
+      ref,
+      workflow,
+    })) {
+      if (fieldValue != null && typeof fieldValue !== "string") {
+        throw new Error(`"${field}" of OIDC rule #${index + 1} must be a string`);
+      }
+    }
+    // A rule without a repository would admit any repository on GitHub.
+    if (typeof repository !== "string" || repository.length === 0) {
+      throw new Error(`OIDC rule #${index + 1} must set "repository"`);
+    }
+    return {
+      name: typeof name === "string" && name ? name : `rule #${index + 1}`,
+      repository,
+      ref: ref as string | undefined,
+      workflow: workflow as string | undefined,
+    };
+  });
+}
+
+/**
+ * Token pairs from `OAUTH_ACCESS_TOKEN`/`OAUTH_REFRESH_TOKEN` followed by
+ * those from `OAUTH_ACCOUNTS`.
+ */
+function oauthPairsFromEnv(): Array<{
+  accessToken: string;
+  refreshToken: string;
+}> {
+  const pairs = parseOAuthAccounts(process.env.OAUTH_ACCOUNTS ?? "");
+  // Accounts from OAUTH_ACCOUNTS follow the primary pair, if any.
+  if (process.env.OAUTH_ACCESS_TOKEN?.trim()) {
+    pairs.unshift({
+      accessToken: process.env.OAUTH_ACCESS_TOKEN.trim(),
+      refreshToken: process.env.OAUTH_REFRESH_TOKEN?.trim() ?? "",
+    });
+  }
+  return pairs;
+}
+
+/**
+ * Parse the `OAUTH_ACCOUNTS` JSON array of `{ access_token, refresh_token }`
+ * objects; empty means no pool.
+ */
+function parseOAuthAccounts(
+  value: string
+): Array<{ accessToken: string; refreshToken: string }> {
+  if (value.trim().length === 0) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("OAUTH_ACCOUNTS must be a JSON array");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("OAUTH_ACCOUNTS must be a JSON array");
+  }
+  return parsed.map((account, index) => {
+    const { access_token, refresh_token } = (account ?? {}) as {
+      access_token?: unknown;
+      refresh_token?: unknown;
+    };
+    if (typeof access_token !== "string" || typeof refresh_token !== "string") {
+      throw new Error(
+        `OAUTH_ACCOUNTS[${index}] must have string access_token and refresh_token fields`
+      );
+    }
+    return {
+      accessToken: access_token.trim(),
+      refreshToken: refresh_token.trim(),
+    };
+  });
+}
+
 function parseExtraArgs(value: string): Array<string> {
   if (value.length === 0) {
     return [];
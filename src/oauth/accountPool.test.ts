@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { createAccountPool, parseUsageLimitReset } from "./accountPool";
+import type { TokenState } from "./tokenManager";
+
+function state(name: string): TokenState {
+  return {
+    accessToken: `at_${name}`,
+    refreshToken: `rt_${name}`,
+    expires: 0,
+    accountId: name,
+  };
+}
+
+function labels(accounts: Array<{ label: string }>): string[] {
+  return accounts.map((account) => account.label);
+}
+
+describe("createAccountPool", () => {
+  it("needs at least one account", () => {
+    expect(() => createAccountPool([])).toThrow();
+  });
+
+  it("fails over to the next account while one cools down", () => {
+    const pool = createAccountPool([state("a"), state("b"), state("c")]);
+    const now = 1_000_000;
+    expect(labels(pool.candidates(now))).toEqual([
+      "account #1",
+      "account #2",
+      "account #3",
+    ]);
+
+    const until = pool.markUsageLimited(
+      pool.current(),
+      JSON.stringify({ error: { resets_in_seconds: 60 } }),
+      now,
+    );
+    expect(until).toBe(now + 60_000);
+    expect(pool.current().label).toBe("account #2");
+    expect(labels(pool.candidates(now))).toEqual(["account #2", "account #3"]);
+
+    // Back in rotation, after the current account, once the cooldown ends.
+    expect(labels(pool.candidates(until))).toEqual([
+      "account #2",
+      "account #3",
+      "account #1",
+    ]);
+  });
+
+  it("offers only the account whose cooldown ends first when all are limited", () => {
+    const pool = createAccountPool([state("a"), state("b")]);
+    const now = 1_000_000;
+    const [first, second] = pool.accounts;
+    pool.markUsageLimited(first, '{"resets_in_seconds": 120}', now);
+    pool.markUsageLimited(second, '{"resets_in_seconds": 30}', now);
+    expect(pool.candidates(now)).toEqual([second]);
+  });
+
+  it("keeps the current account when another one is marked", () => {
+    const pool = createAccountPool([state("a"), state("b"), state("c")]);
+    pool.markUsageLimited(pool.accounts[2], "not json", 0);
+    expect(pool.current().label).toBe("account #1");
+    expect(pool.accounts[2].cooldownUntil).toBe(15 * 60_000);
+  });
+});
+
+describe("parseUsageLimitReset", () => {
+  const now = 1_700_000_000_000;
+
+  it("reads resets_in_seconds", () => {
+    expect(
+      parseUsageLimitReset('{"error":{"resets_in_seconds":10}}', now),
+    ).toBe(now + 10_000);
+  });
+
+  it("reads resets_at", () => {
+    expect(
+      parseUsageLimitReset('{"error":{"resets_at":1700000100}}', now),
+    ).toBe(1_700_000_100_000);
+  });
+
+  it("never returns a time in the past", () => {
+    expect(parseUsageLimitReset('{"resets_at":1}', now)).toBe(now);
+    expect(parseUsageLimitReset('{"resets_in_seconds":-5}', now)).toBe(now);
+  });
+
+  it("returns null without a reset time", () => {
+    expect(parseUsageLimitReset("{}", now)).toBeNull();
+    expect(parseUsageLimitReset("<html>", now)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Pool of ChatGPT accounts for the OAuth proxy.
+ *
+ * Each account has its own `TokenState`.  Requests stick to one account (so
+ * the backend's prompt cache keeps working) until it hits its usage limit;
+ * the account then cools down until the reset time reported by the backend
+ * and requests move on to the next account.
+ */
+
+import type { TokenState } from "./tokenManager";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PoolAccount {
+  /** Human-readable name used in logs, e.g. `account #2`. */
+  readonly label: string;
+  readonly state: TokenState;
+  /** Absolute timestamp (ms) until which the account is usage-limited. */
+  cooldownUntil: number;
+  /** Message of the last failed token refresh, cleared on success. */
+  lastRefreshError: string | null;
+}
+
+export interface AccountPool {
+  readonly accounts: readonly PoolAccount[];
+  /** The account new requests start on. */
+  current(): PoolAccount;
+  /**
+   * Accounts to try for a request, in order: every account that is not
+   * cooling down, starting with the current one.  If all of them are, only
+   * the one whose cooldown ends first is returned, so the backend's own
+   * usage-limit error reaches the client.
+   */
+  candidates(now?: number): PoolAccount[];
+  /**
+   * Put `account` on cooldown after a usage-limit response with the given
+   * body, and move on to the next account.  Returns the end of the cooldown.
+   */
+  markUsageLimited(account: PoolAccount, body: string, now?: number): number;
+}
+
+/** Cooldown used when the backend does not say when the limit resets. */
+const DEFAULT_COOLDOWN_MS = 15 * 60_000;
+
+// ---------------------------------------------------------------------------
+// Pool
+// ---------------------------------------------------------------------------
+
+export function createAccountPool(states: TokenState[]): AccountPool {
+  if (states.length === 0) {
+    throw new Error("The account pool needs at least one account");
+  }
+
+  const accounts: PoolAccount[] = states.map((state, index) => ({
+    label: `account #${index + 1}`,
+    state,
+    cooldownUntil: 0,
+    lastRefreshError: null,
+  }));
+  let currentIndex = 0;
+
+  return {
+    accounts,
+
+    current() {
+      return accounts[currentIndex];
+    },
+
+    candidates(now = Date.now()) {
+      const ordered = accounts.map(
+        (_, offset) => accounts[(currentIndex + offset) % accounts.length],
+      );
+      const available = ordered.filter(
+        (account) => account.cooldownUntil <= now,
+      );
+      if (available.length > 0) {
+        return available;
+      }
+      return [
+        ordered.reduce((earliest, account) =>
+          account.cooldownUntil < earliest.cooldownUntil ? account : earliest,
+        ),
+      ];
+    },
+
+    markUsageLimited(account, body, now = Date.now()) {
+      account.cooldownUntil =
+        parseUsageLimitReset(body, now) ?? now + DEFAULT_COOLDOWN_MS;
+      const index = accounts.indexOf(account);
+      if (index === currentIndex) {
+        currentIndex = (currentIndex + 1) % accounts.length;
+      }
+      return account.cooldownUntil;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reset time parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract when a usage limit resets from a backend error body, which reports
+ * either `resets_in_seconds` or `resets_at` (Unix seconds), usually nested
+ * under `error`.  Returns an absolute timestamp (ms) or `null`.
+ */
+export function parseUsageLimitReset(body: string, now: number): number | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  if (parsed == null || typeof parsed !== "object") {
+    return null;
+  }
+
+  const outer = parsed as Record<string, unknown>;
+  const error =
+    outer.error != null && typeof outer.error === "object"
+      ? (outer.error as Record<string, unknown>)
+      : outer;
+
+  const { resets_in_seconds: resetsIn, resets_at: resetsAt } = error;
+  if (typeof resetsIn === "number" && Number.isFinite(resetsIn)) {
+    return now + Math.max(0, resetsIn) * 1000;
+  }
+  if (typeof resetsAt === "number" && Number.isFinite(resetsAt)) {
+    return Math.max(now, resetsAt * 1000);
+  }
+  return null;
+}
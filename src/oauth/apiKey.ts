@@ -0,0 +1,108 @@
+/**
+ * API-key mode of the proxy.
+ *
+ * Instead of OAuth tokens and the ChatGPT backend, requests go to the
+ * Responses API of OpenAI or Azure OpenAI with an API key.  The key is read
+ * from stdin by the CLI so it never appears in the environment or process
+ * list, and is only ever attached to the upstream request here.
+ *
+ * Header styles:
+ * - `openai`: `Authorization: Bearer <key>`
+ * - `azure`: `api-key: <key>`, plus an `api-version` query parameter when
+ *   one is configured (the `/openai/v1/` endpoints need none).
+ */
+
+import type { IncomingMessage } from "node:http";
+
+import { CLIENT_SECRET_HEADER } from "./clientAuth";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ApiKeyStyle = "openai" | "azure";
+
+export interface ApiKeyUpstream {
+  key: string;
+  /** Responses API endpoint (default `https://api.openai.com/v1/responses`). */
+  url?: string;
+  /** Detected from the endpoint's host when unset. */
+  style?: ApiKeyStyle;
+  /** Azure `api-version` query parameter. */
+  apiVersion?: string;
+}
+
+export const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
+
+/** Hosts of Azure OpenAI resources. */
+const AZURE_HOST_PATTERN =
+  /\.(openai\.azure\.com|cognitiveservices\.azure\.com|services\.ai\.azure\.com)$/i;
+
+/**
+ * Request headers never forwarded upstream: hop-by-hop headers, the ones
+ * `fetch` sets itself, and the credentials of the local client.
+ */
+const DROPPED_HEADERS = new Set([
+  "authorization",
+  "api-key",
+  CLIENT_SECRET_HEADER,
+  "host",
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "content-length",
+  "content-type",
+  "accept-encoding",
+  "upgrade",
+]);
+
+// ---------------------------------------------------------------------------
+// Upstream request
+// ---------------------------------------------------------------------------
+
+/** Header style for an endpoint: Azure resource hosts use `api-key`. */
+export function detectApiKeyStyle(url: string): ApiKeyStyle {
+  return AZURE_HOST_PATTERN.test(new URL(url).hostname) ? "azure" : "openai";
+}
+
+/**
+ * Resolve the upstream URL and the credential header for `upstream`.  Throws
+ * if the key is empty.
+ */
+export function resolveApiKeyUpstream(upstream: ApiKeyUpstream): {
+  url: string;
+  style: ApiKeyStyle;
+  credentials: Record<string, string>;
+} {
+  const key = upstream.key.trim();
+  if (key === "") {
+    throw new Error("The API key is empty");
+  }
+
+  const url = new URL(upstream.url ?? OPENAI_RESPONSES_URL);
+  const style = upstream.style ?? detectApiKeyStyle(url.href);
+  if (style === "azure" && upstream.apiVersion) {
+    url.searchParams.set("api-version", upstream.apiVersion);
+  }
+  return {
+    url: url.href,
+    style,
+    credentials:
+      style === "azure"
+        ? { "api-key": key }
+        : { Authorization: `Bearer ${key}` },
+  };
+}
+
+/**
+ * Headers of the client request to pass on (e.g. `OpenAI-Beta` and Codex's
+ * session headers), without its credentials or hop-by-hop headers.
+ */
+export function forwardedHeaders(req: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value == null || DROPPED_HEADERS.has(name.toLowerCase())) continue;
+    headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return headers;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { createBudgetGuard } from "./budget";
+import type { TokenUsage } from "./usageTracker";
+
+function usage(totalTokens: number): TokenUsage {
+  return {
+    requests: 0,
+    input_tokens: 0,
+    cached_tokens: 0,
+    output_tokens: 0,
+    reasoning_tokens: 0,
+    total_tokens: totalTokens,
+  };
+}
+
+describe("createBudgetGuard", () => {
+  it("admits every call without limits", () => {
+    const guard = createBudgetGuard({});
+    for (let i = 0; i < 100; i++) {
+      expect(guard.admit(usage(1_000_000))).toBeNull();
+    }
+    expect(guard.status()).toEqual({
+      max_total_tokens: null,
+      max_requests: null,
+      requests_admitted: 100,
+      exceeded: null,
+    });
+  });
+
+  it("refuses calls once the request budget is spent", () => {
+    const guard = createBudgetGuard({ maxRequests: 2 });
+    expect(guard.admit(usage(0))).toBeNull();
+    expect(guard.admit(usage(0))).toBeNull();
+    expect(guard.admit(usage(0))).toBe(
+      "Request budget exhausted: 2 of 2 requests sent",
+    );
+    expect(guard.status().requests_admitted).toBe(2);
+  });
+
+  it("refuses calls once the token budget is spent", () => {
+    const guard = createBudgetGuard({ maxTotalTokens: 100 });
+    expect(guard.admit(usage(99))).toBeNull();
+    expect(guard.admit(usage(100))).toBe(
+      "Token budget exhausted: 100 of 100 tokens used",
+    );
+  });
+
+  it("keeps refusing with the first reason", () => {
+    const guard = createBudgetGuard({ maxTotalTokens: 10, maxRequests: 5 });
+    const reason = guard.admit(usage(10));
+    expect(reason).not.toBeNull();
+    expect(guard.admit(usage(0))).toBe(reason);
+    expect(guard.status()).toMatchObject({
+      requests_admitted: 0,
+      exceeded: reason,
+    });
+  });
+});
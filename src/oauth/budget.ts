@@ -0,0 +1,77 @@
+/**
+ * Per-run budget for the OAuth proxy.
+ *
+ * Caps the number of `/v1/responses` calls forwarded upstream and the total
+ * tokens reported by `response.completed` events.  Once either is spent, every
+ * further call is refused, so a runaway agent loop cannot drain the account's
+ * quota.  Calls already in flight are allowed to finish.
+ */
+
+import type { TokenUsage } from "./usageTracker";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface UsageBudget {
+  /** Maximum `total_tokens` summed over the run (unset: unlimited). */
+  maxTotalTokens?: number;
+  /** Maximum number of calls forwarded upstream (unset: unlimited). */
+  maxRequests?: number;
+}
+
+/** Budget state persisted in the usage file. */
+export interface BudgetStatus {
+  max_total_tokens: number | null;
+  max_requests: number | null;
+  requests_admitted: number;
+  /** Why further calls are refused, or `null` while within budget. */
+  exceeded: string | null;
+}
+
+export interface BudgetGuard {
+  /**
+   * Admit one more call given the usage so far.  Returns `null` if the call
+   * may proceed, or the reason it must be refused.
+   */
+  admit(totals: TokenUsage): string | null;
+  status(): BudgetStatus;
+}
+
+// ---------------------------------------------------------------------------
+// Guard
+// ---------------------------------------------------------------------------
+
+export function createBudgetGuard(budget: UsageBudget): BudgetGuard {
+  const maxTotalTokens = budget.maxTotalTokens ?? null;
+  const maxRequests = budget.maxRequests ?? null;
+  let admitted = 0;
+  let exceeded: string | null = null;
+
+  return {
+    admit(totals) {
+      if (exceeded == null) {
+        if (maxTotalTokens != null && totals.total_tokens >= maxTotalTokens) {
+          exceeded = `Token budget exhausted: ${totals.total_tokens} of ${maxTotalTokens} tokens used`;
+        } else if (maxRequests != null && admitted >= maxRequests) {
+          exceeded = `Request budget exhausted: ${admitted} of ${maxRequests} requests sent`;
+        }
+      }
+      if (exceeded != null) {
+        return exceeded;
+      }
+
+      admitted++;
+      return null;
+    },
+
+    status() {
+      return {
+        max_total_tokens: maxTotalTokens,
+        max_requests: maxRequests,
+        requests_admitted: admitted,
+        exceeded,
+      };
+    },
+  };
+}
@@ -0,0 +1,311 @@
+import type { ServerResponse } from "node:http";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  chatRequestToResponses,
+  handleChatCompletionResponse,
+  type ChatCompletionOptions,
+} from "./chatCompletions";
+
+describe("chatRequestToResponses", () => {
+  it("translates messages, tools and options", () => {
+    expect(
+      chatRequestToResponses({
+        model: "gpt-5.1",
+        stream: true,
+        temperature: 0.2,
+        messages: [
+          { role: "system", content: "Be brief." },
+          {
+            role: "developer",
+            content: [{ type: "text", text: "Use tools." }],
+          },
+          { role: "user", content: "List files" },
+          {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: { name: "ls", arguments: "{}" },
+              },
+            ],
+          },
+          { role: "tool", tool_call_id: "call_1", content: "a.txt" },
+        ],
+        tools: [
+          {
+            type: "function",
+            function: { name: "ls", parameters: { type: "object" } },
+          },
+        ],
+        tool_choice: { type: "function", function: { name: "ls" } },
+        reasoning_effort: "low",
+        response_format: { type: "json_object" },
+      }),
+    ).toEqual({
+      model: "gpt-5.1",
+      stream: true,
+      store: false,
+      instructions: "Be brief.\n\nUse tools.",
+      input: [
+        {
+          type: "message",
+          role: "user",
+          content: [{ type: "input_text", text: "List files" }],
+        },
+        {
+          type: "function_call",
+          call_id: "call_1",
+          name: "ls",
+          arguments: "{}",
+        },
+        { type: "function_call_output", call_id: "call_1", output: "a.txt" },
+      ],
+      tools: [
+        {
+          type: "function",
+          name: "ls",
+          description: undefined,
+          parameters: { type: "object" },
+          strict: undefined,
+        },
+      ],
+      tool_choice: { type: "function", name: "ls" },
+      reasoning: { effort: "low" },
+      text: { format: { type: "json_object" } },
+    });
+  });
+
+  it("translates image parts", () => {
+    const body = chatRequestToResponses({
+      model: "m",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            {
+              type: "image_url",
+              image_url: { url: "data:image/png;base64,AA", detail: "low" },
+            },
+          ],
+        },
+      ],
+    });
+    expect(body.input).toEqual([
+      {
+        type: "message",
+        role: "user",
+        content: [
+          { type: "input_text", text: "What is this?" },
+          {
+            type: "input_image",
+            image_url: "data:image/png;base64,AA",
+            detail: "low",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("rejects requests without messages or with unknown roles", () => {
+    expect(() => chatRequestToResponses({ model: "m" } as never)).toThrow(
+      "`messages` must be an array",
+    );
+    expect(() =>
+      chatRequestToResponses({
+        model: "m",
+        messages: [{ role: "function" as never, content: "x" }],
+      }),
+    ).toThrow("Unsupported message role: function");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Response translation
+// ---------------------------------------------------------------------------
+
+/** Just enough of a `ServerResponse` to capture what is sent. */
+function fakeDownstream() {
+  const sent = { status: 0, body: "" };
+  const res = {
+    headersSent: false,
+    writeHead(status: number) {
+      sent.status = status;
+      res.headersSent = true;
+      return res;
+    },
+    write(chunk: string) {
+      sent.body += chunk;
+      return true;
+    },
+    end(chunk?: string) {
+      sent.body += chunk ?? "";
+      return res;
+    },
+  };
+  return { res: res as unknown as ServerResponse, sent };
+}
+
+function sse(events: Array<Record<string, unknown>>): Response {
+  const body = events
+    .map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join("");
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+const completed = {
+  id: "resp_1",
+  created_at: 1_700_000_000,
+  model: "gpt-5.1-codex",
+  status: "completed",
+  output: [
+    {
+      type: "message",
+      content: [{ type: "output_text", text: "Hello" }],
+    },
+  ],
+  usage: { input_tokens: 3, output_tokens: 2, total_tokens: 5 },
+};
+
+const textEvents = [
+  { type: "response.created", response: { id: "resp_1" } },
+  { type: "response.output_text.delta", delta: "Hel" },
+  { type: "response.output_text.delta", delta: "lo" },
+  { type: "response.completed", response: completed },
+];
+
+async function translate(
+  events: Array<Record<string, unknown>>,
+  wasStreaming: boolean,
+  options: Partial<ChatCompletionOptions> = {},
+) {
+  const { res, sent } = fakeDownstream();
+  await handleChatCompletionResponse(
+    sse(events),
+    res,
+    wasStreaming,
+    {},
+    { model: "gpt-5.1", includeUsage: false, ...options },
+  );
+  return sent;
+}
+
+/** The `data:` payloads of a streamed response, without `[DONE]`. */
+function chunks(body: string): any[] {
+  const payloads = body
+    .split("\n\n")
+    .filter((frame) => frame.startsWith("data: "))
+    .map((frame) => frame.slice("data: ".length));
+  expect(payloads.pop()).toBe("[DONE]");
+  return payloads.map((payload) => JSON.parse(payload));
+}
+
+describe("handleChatCompletionResponse", () => {
+  it("builds a chat.completion from a non-streaming response", async () => {
+    const sent = await translate(textEvents, false);
+    expect(sent.status).toBe(200);
+    expect(JSON.parse(sent.body)).toMatchObject({
+      id: "resp_1",
+      object: "chat.completion",
+      created: 1_700_000_000,
+      model: "gpt-5.1-codex",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: "Hello" },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+    });
+  });
+
+  it("streams chunks with a final usage chunk", async () => {
+    const sent = await translate(textEvents, true, { includeUsage: true });
+    const streamed = chunks(sent.body);
+    expect(streamed.map((chunk) => chunk.choices[0]?.delta)).toEqual([
+      { role: "assistant", content: "" },
+      { content: "Hel" },
+      { content: "lo" },
+      {},
+      undefined,
+    ]);
+    expect(streamed[3].choices[0].finish_reason).toBe("stop");
+    expect(streamed[4].usage).toMatchObject({ total_tokens: 5 });
+  });
+
+  it("finishes only once when both final events arrive", async () => {
+    const sent = await translate(
+      [...textEvents, { type: "response.done", response: completed }],
+      true,
+      { includeUsage: true },
+    );
+    const streamed = chunks(sent.body);
+    expect(
+      streamed.filter((chunk) => chunk.choices[0]?.finish_reason != null),
+    ).toHaveLength(1);
+    expect(streamed.filter((chunk) => chunk.usage != null)).toHaveLength(1);
+  });
+
+  it("translates tool calls", async () => {
+    const call = {
+      type: "function_call",
+      id: "fc_1",
+      call_id: "call_1",
+      name: "ls",
+      arguments: '{"path":"."}',
+    };
+    const events = [
+      { type: "response.created", response: { id: "resp_2" } },
+      { type: "response.output_item.added", item: { ...call, arguments: "" } },
+      {
+        type: "response.function_call_arguments.delta",
+        item_id: "fc_1",
+        delta: '{"path":"."}',
+      },
+      { type: "response.output_item.done", item: call },
+      { type: "response.completed", response: { id: "resp_2", output: [] } },
+    ];
+
+    const streamed = chunks((await translate(events, true)).body);
+    expect(streamed[1].choices[0].delta.tool_calls).toEqual([
+      {
+        index: 0,
+        id: "call_1",
+        type: "function",
+        function: { name: "ls", arguments: "" },
+      },
+    ]);
+    expect(streamed[2].choices[0].delta.tool_calls).toEqual([
+      { index: 0, function: { arguments: '{"path":"."}' } },
+    ]);
+    expect(streamed[3].choices[0].finish_reason).toBe("tool_calls");
+
+    const completion = JSON.parse((await translate(events, false)).body);
+    expect(completion.choices[0]).toMatchObject({
+      message: {
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "ls", arguments: '{"path":"."}' },
+          },
+        ],
+      },
+      finish_reason: "tool_calls",
+    });
+  });
+
+  it("answers 502 when the response never completes", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const sent = await translate(textEvents.slice(0, 2), false);
+    expect(sent.status).toBe(502);
+    vi.restoreAllMocks();
+  });
+});
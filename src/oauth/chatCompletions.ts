@@ -0,0 +1,497 @@
+/**
+ * Chat Completions compatibility for the OAuth proxy.
+ *
+ * The ChatGPT backend only speaks the Responses API.  Requests to
+ * `/v1/chat/completions` are translated into a Responses request (messages
+ * become input items, function tools are flattened) and sent through the
+ * normal transform pipeline; the upstream SSE stream is translated back into
+ * `chat.completion.chunk` events, or a single `chat.completion` body when the
+ * client did not ask for a stream.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { ServerResponse } from "node:http";
+
+import type { InputItem, RequestBody } from "./requestTransformer";
+import {
+  createEventTap,
+  handleUpstreamResponse,
+  type ResponseObserver,
+  type UpstreamEvent,
+} from "./responseHandler";
+
+// ---------------------------------------------------------------------------
+// Types (minimal — only what the translation needs)
+// ---------------------------------------------------------------------------
+
+interface ChatContentPart {
+  type: string;
+  text?: string;
+  image_url?: string | { url: string; detail?: string };
+}
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content?: string | ChatContentPart[] | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatTool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: unknown;
+    strict?: boolean;
+  };
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  tools?: ChatTool[];
+  tool_choice?:
+    | "auto"
+    | "none"
+    | "required"
+    | { type: "function"; function: { name: string } };
+  parallel_tool_calls?: boolean;
+  reasoning_effort?: string;
+  response_format?:
+    | { type: "text" | "json_object" }
+    | {
+        type: "json_schema";
+        json_schema: {
+          name: string;
+          schema?: unknown;
+          strict?: boolean;
+          description?: string;
+        };
+      };
+  [key: string]: unknown;
+}
+
+/** What the response translation needs to know about the request. */
+export interface ChatCompletionOptions {
+  /** Model name reported until the backend names one. */
+  model: string;
+  /** Send a final usage chunk (`stream_options.include_usage`). */
+  includeUsage: boolean;
+}
+
+/** Responses API output item, as far as the translation looks at it. */
+interface OutputItem {
+  type: string;
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  content?: Array<{ type: string; text?: string; refusal?: string }>;
+}
+
+interface ResponseUsage {
+  input_tokens?: number;
+  input_tokens_details?: { cached_tokens?: number };
+  output_tokens?: number;
+  output_tokens_details?: { reasoning_tokens?: number };
+  total_tokens?: number;
+}
+
+interface FinalResponse {
+  id?: string;
+  created_at?: number;
+  model?: string;
+  status?: string;
+  incomplete_details?: { reason?: string } | null;
+  output?: OutputItem[];
+  usage?: ResponseUsage;
+}
+
+// ---------------------------------------------------------------------------
+// Request translation
+// ---------------------------------------------------------------------------
+
+/**
+ * Translate a Chat Completions request into a Responses API request body.
+ * Sampling parameters the ChatGPT backend does not accept are dropped.
+ * Throws if the request has no `messages` array.
+ */
+export function chatRequestToResponses(
+  chat: ChatCompletionRequest,
+): RequestBody {
+  if (!Array.isArray(chat.messages)) {
+    throw new Error("`messages` must be an array");
+  }
+
+  const instructions: string[] = [];
+  const input: InputItem[] = [];
+  for (const message of chat.messages) {
+    switch (message.role) {
+      case "system":
+      case "developer":
+        instructions.push(textOf(message.content));
+        break;
+      case "user":
+        input.push({
+          type: "message",
+          role: "user",
+          content: userContent(message.content),
+        });
+        break;
+      case "assistant": {
+        const text = textOf(message.content);
+        if (text !== "") {
+          input.push({
+            type: "message",
+            role: "assistant",
+            content: [{ type: "output_text", text }],
+          });
+        }
+        for (const call of message.tool_calls ?? []) {
+          input.push({
+            type: "function_call",
+            call_id: call.id,
+            name: call.function.name,
+            arguments: call.function.arguments,
+          });
+        }
+        break;
+      }
+      case "tool":
+        input.push({
+          type: "function_call_output",
+          call_id: message.tool_call_id,
+          output: textOf(message.content),
+        });
+        break;
+      default:
+        throw new Error(`Unsupported message role: ${String(message.role)}`);
+    }
+  }
+
+  const body: RequestBody = {
+    model: chat.model,
+    stream: chat.stream === true,
+    // Chat Completions has no stored responses to refer back to.
+    store: false,
+    input,
+  };
+  if (instructions.length > 0) {
+    body.instructions = instructions.join("\n\n");
+  }
+  if (chat.tools) {
+    body.tools = chat.tools.map((tool) => ({
+      type: "function",
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters,
+      strict: tool.function.strict,
+    }));
+  }
+  if (chat.tool_choice != null) {
+    body.tool_choice =
+      typeof chat.tool_choice === "string"
+        ? chat.tool_choice
+        : { type: "function", name: chat.tool_choice.function.name };
+  }
+  if (chat.parallel_tool_calls != null) {
+    body.parallel_tool_calls = chat.parallel_tool_calls;
+  }
+  if (chat.reasoning_effort) {
+    body.reasoning = { effort: chat.reasoning_effort };
+  }
+  if (chat.response_format?.type === "json_schema") {
+    body.text = {
+      format: { type: "json_schema", ...chat.response_format.json_schema },
+    };
+  } else if (chat.response_format?.type === "json_object") {
+    body.text = { format: { type: "json_object" } };
+  }
+  return body;
+}
+
+function textOf(content: ChatMessage["content"]): string {
+  if (content == null) return "";
+  if (typeof content === "string") return content;
+  return content
+    .map((part) => (part.type === "text" ? (part.text ?? "") : ""))
+    .join("");
+}
+
+function userContent(content: ChatMessage["content"]): unknown[] {
+  if (content == null) return [];
+  if (typeof content === "string") {
+    return [{ type: "input_text", text: content }];
+  }
+  return content.map((part) => {
+    if (part.type === "image_url" && part.image_url != null) {
+      const image = part.image_url;
+      return typeof image === "string"
+        ? { type: "input_image", image_url: image }
+        : { type: "input_image", image_url: image.url, detail: image.detail };
+    }
+    return { type: "input_text", text: part.text ?? "" };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Response translation
+// ---------------------------------------------------------------------------
+
+/**
+ * Forward the upstream response as a Chat Completions response.  Errors are
+ * passed through exactly as on `/v1/responses`.
+ */
+export async function handleChatCompletionResponse(
+  upstream: Response,
+  downstream: ServerResponse,
+  wasStreaming: boolean,
+  observer: ResponseObserver,
+  options: ChatCompletionOptions,
+): Promise<void> {
+  if (!upstream.ok || !upstream.body) {
+    await handleUpstreamResponse(upstream, downstream, wasStreaming, observer);
+    return;
+  }
+
+  const translator = createChatTranslator(options);
+  if (wasStreaming) {
+    downstream.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+  }
+  const tap = createEventTap({
+    onEvent: (event) => {
+      observer.onEvent?.(event);
+      const chunks = translator.push(event);
+      if (wasStreaming) {
+        for (const chunk of chunks) {
+          downstream.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+      }
+    },
+  });
+
+  const reader = upstream.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      observer.onBytes?.(value.byteLength);
+      tap.push(value);
+    }
+  } catch (err) {
+    console.error("[oauth-proxy] Error reading SSE stream:", err);
+  } finally {
+    tap.flush();
+  }
+
+  if (wasStreaming) {
+    downstream.end("data: [DONE]\n\n");
+    return;
+  }
+
+  const completion = translator.completion();
+  if (completion == null) {
+    console.error(
+      "[oauth-proxy] Could not find response.done event in SSE stream",
+    );
+    downstream.writeHead(502, { "Content-Type": "application/json" });
+    downstream.end(
+      JSON.stringify({ error: "Upstream response ended without completing" }),
+    );
+    return;
+  }
+  downstream.writeHead(200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+  downstream.end(JSON.stringify(completion));
+}
+
+/**
+ * Stateful translation of Responses API events into chat completion chunks,
+ * and of the finished response into a `chat.completion` object.
+ */
+function createChatTranslator(options: ChatCompletionOptions): {
+  /** Chunks to stream to the client for this event. */
+  push(event: UpstreamEvent): unknown[];
+  /** The full completion, or `null` if the response never completed. */
+  completion(): unknown | null;
+} {
+  let id = `chatcmpl-${randomUUID()}`;
+  let created = Math.floor(Date.now() / 1000);
+  let model = options.model;
+  let final: FinalResponse | null = null;
+  // The backend may send both `response.completed` and `response.done`;
+  // only the first one produces a finish chunk.
+  let finished = false;
+  const items: OutputItem[] = [];
+  // Output item ID -> index of the tool call in the chunks sent so far.
+  const toolCallIndex = new Map<string, number>();
+
+  const chunk = (delta: unknown, finishReason: string | null = null) => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  const adopt = (response: FinalResponse | undefined) => {
+    if (response?.id) id = response.id;
+    if (response?.created_at) created = response.created_at;
+    if (response?.model) model = response.model;
+  };
+
+  return {
+    push(event) {
+      const response = event.response as FinalResponse | undefined;
+      switch (event.type) {
+        case "response.created":
+          adopt(response);
+          return [chunk({ role: "assistant", content: "" })];
+        case "response.output_text.delta":
+          return [chunk({ content: String(event.delta ?? "") })];
+        case "response.output_item.added": {
+          const item = event.item as (OutputItem & { id?: string }) | undefined;
+          if (item?.type !== "function_call") return [];
+          const index = toolCallIndex.size;
+          toolCallIndex.set(item.id ?? String(index), index);
+          return [
+            chunk({
+              tool_calls: [
+                {
+                  index,
+                  id: item.call_id,
+                  type: "function",
+                  function: { name: item.name, arguments: "" },
+                },
+              ],
+            }),
+          ];
+        }
+        case "response.function_call_arguments.delta": {
+          const index = toolCallIndex.get(String(event.item_id));
+          if (index == null) return [];
+          return [
+            chunk({
+              tool_calls: [
+                { index, function: { arguments: String(event.delta ?? "") } },
+              ],
+            }),
+          ];
+        }
+        case "response.output_item.done":
+          items.push(event.item as OutputItem);
+          return [];
+        case "response.completed":
+        case "response.done":
+        case "response.incomplete": {
+          if (finished) return [];
+          finished = true;
+          adopt(response);
+          final = response ?? {};
+          const chunks: unknown[] = [
+            chunk({}, finishReason(final, outputOf(final, items))),
+          ];
+          if (options.includeUsage) {
+            chunks.push({
+              ...chunk(null),
+              choices: [],
+              usage: chatUsage(final.usage),
+            });
+          }
+          return chunks;
+        }
+        case "response.failed":
+        case "error": {
+          const error = (response as { error?: unknown } | undefined)?.error ??
+            event.error ?? { message: String(event.message ?? "") };
+          return [{ error }];
+        }
+        default:
+          return [];
+      }
+    },
+
+    completion() {
+      if (final == null) return null;
+      const output = outputOf(final, items);
+      const text = output
+        .filter((item) => item.type === "message")
+        .flatMap((item) => item.content ?? [])
+        .map((part) => part.text ?? "")
+        .join("");
+      const toolCalls = output
+        .filter((item) => item.type === "function_call")
+        .map((item) => ({
+          id: item.call_id,
+          type: "function",
+          function: { name: item.name, arguments: item.arguments ?? "" },
+        }));
+      return {
+        id,
+        object: "chat.completion",
+        created,
+        model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: text === "" && toolCalls.length > 0 ? null : text,
+              ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+            },
+            finish_reason: finishReason(final, output),
+          },
+        ],
+        usage: chatUsage(final.usage),
+      };
+    },
+  };
+}
+
+/** The backend may leave `output` empty on the final event. */
+function outputOf(response: FinalResponse, items: OutputItem[]): OutputItem[] {
+  return response.output?.length ? response.output : items;
+}
+
+function finishReason(response: FinalResponse, output: OutputItem[]): string {
+  if (output.some((item) => item.type === "function_call")) {
+    return "tool_calls";
+  }
+  if (response.incomplete_details?.reason === "max_output_tokens") {
+    return "length";
+  }
+  if (response.incomplete_details?.reason === "content_filter") {
+    return "content_filter";
+  }
+  return "stop";
+}
+
+function chatUsage(usage: ResponseUsage | undefined): unknown {
+  if (!usage) return undefined;
+  const prompt = usage.input_tokens ?? 0;
+  const completion = usage.output_tokens ?? 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: usage.total_tokens ?? prompt + completion,
+    prompt_tokens_details: {
+      cached_tokens: usage.input_tokens_details?.cached_tokens ?? 0,
+    },
+    completion_tokens_details: {
+      reasoning_tokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Authentication of local clients of the OAuth proxy.
+ *
+ * The proxy listens on loopback, which every process on the runner can reach.
+ * To keep other processes from spending the ChatGPT entitlement through it,
+ * each proxy generates a random per-run secret that clients must present,
+ * either in the `x-codex-proxy-secret` header (what Codex is configured to
+ * send) or as an `Authorization: Bearer` token (convenient for curl).
+ */
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { chmod, writeFile } from "node:fs/promises";
+
+export const CLIENT_SECRET_HEADER = "x-codex-proxy-secret";
+
+export function generateClientSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Derive the default secret file path from the server info file path, e.g.
+ * `~/.codex/1234.json` -> `~/.codex/1234.secret`.
+ */
+export function clientSecretFileFor(serverInfoFile: string): string {
+  return serverInfoFile.replace(/(\.json)?$/, ".secret");
+}
+
+/** Write the secret to `file`, readable by the proxy's user only. */
+export async function writeClientSecretFile(
+  file: string,
+  secret: string,
+): Promise<void> {
+  await writeFile(file, secret, { mode: 0o600 });
+  // `mode` is ignored when the file already exists, so enforce it explicitly.
+  await chmod(file, 0o600);
+}
+
+export function isAuthorizedClient(
+  req: IncomingMessage,
+  secret: string,
+): boolean {
+  const header = req.headers[CLIENT_SECRET_HEADER];
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const presented = (typeof header === "string" ? header : bearer)?.trim();
+  if (!presented) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(presented);
+  return (
+    actual.length === expected.length && timingSafeEqual(actual, expected)
+  );
+}
@@ -0,0 +1,83 @@
+import {
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  readEncryptedTokenFile,
+  writeEncryptedTokenFile,
+} from "./encryptedTokenStore";
+
+const pair = {
+  access_token: "at_example",
+  refresh_token: "rt_example",
+  expires_at: 1_700_000_000_000,
+};
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "token-store-test-"));
+  file = path.join(dir, "tokens.enc");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("encrypted token file", () => {
+  it("round-trips a token pair", async () => {
+    await writeEncryptedTokenFile(file, "passphrase", pair);
+    expect(await readEncryptedTokenFile(file, "passphrase")).toEqual(pair);
+  });
+
+  it("does not store the tokens in the clear", async () => {
+    await writeEncryptedTokenFile(file, "passphrase", pair);
+    const contents = await readFile(file, "utf-8");
+    expect(contents).not.toContain(pair.access_token);
+    expect(contents).not.toContain(pair.refresh_token);
+  });
+
+  it("writes an owner-only file and no leftover temp files", async () => {
+    await Promise.all([
+      writeEncryptedTokenFile(file, "passphrase", pair),
+      writeEncryptedTokenFile(file, "passphrase", pair),
+    ]);
+    expect((await stat(file)).mode & 0o777).toBe(0o600);
+    expect(await readdir(dir)).toEqual(["tokens.enc"]);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    await writeEncryptedTokenFile(file, "passphrase", pair);
+    await expect(readEncryptedTokenFile(file, "wrong")).rejects.toThrow(
+      /wrong passphrase or corrupted file/,
+    );
+  });
+
+  it("rejects a tampered file", async () => {
+    await writeEncryptedTokenFile(file, "passphrase", pair);
+    const sealed = JSON.parse(await readFile(file, "utf-8"));
+    const ciphertext = Buffer.from(sealed.ciphertext, "base64");
+    ciphertext[0] ^= 1;
+    sealed.ciphertext = ciphertext.toString("base64");
+    await writeFile(file, JSON.stringify(sealed));
+    await expect(readEncryptedTokenFile(file, "passphrase")).rejects.toThrow(
+      /wrong passphrase or corrupted file/,
+    );
+  });
+
+  it("rejects a file that is not an encrypted token file", async () => {
+    await writeFile(file, JSON.stringify(pair));
+    await expect(readEncryptedTokenFile(file, "passphrase")).rejects.toThrow(
+      /is not an encrypted token file/,
+    );
+  });
+});
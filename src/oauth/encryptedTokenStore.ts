@@ -0,0 +1,142 @@
+/**
+ * Encrypted at-rest storage of an OAuth token pair, used by the token relay.
+ *
+ * The pair is sealed with AES-256-GCM under a key derived from a passphrase
+ * with scrypt, so a copy of the file alone (e.g. in a backup) does not leak
+ * the refresh token.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+} from "node:crypto";
+import { chmod, readFile, rename, writeFile } from "node:fs/promises";
+
+import type { PersistedTokenPair } from "./tokenStore";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** On-disk format; every binary field is base64. */
+interface EncryptedTokenFile {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// ---------------------------------------------------------------------------
+// Read / write
+// ---------------------------------------------------------------------------
+
+/**
+ * Encrypt `pair` with `passphrase` and atomically write it to `file` with
+ * mode 0600.  A fresh salt and IV are used for every write.
+ */
+export async function writeEncryptedTokenFile(
+  file: string,
+  passphrase: string,
+  pair: PersistedTokenPair,
+): Promise<void> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(passphrase, salt);
+
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(pair), "utf-8"),
+    cipher.final(),
+  ]);
+  const sealed: EncryptedTokenFile = {
+    version: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+
+  // The name is unique per call so concurrent writes never share one.
+  const tempFile = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(tempFile, JSON.stringify(sealed), { mode: 0o600 });
+  await chmod(tempFile, 0o600);
+  await rename(tempFile, file);
+}
+
+/**
+ * Decrypt a file written by `writeEncryptedTokenFile`.  Throws if the
+ * passphrase is wrong or the file was tampered with.
+ */
+export async function readEncryptedTokenFile(
+  file: string,
+  passphrase: string,
+): Promise<PersistedTokenPair> {
+  const sealed = JSON.parse(
+    await readFile(file, "utf-8"),
+  ) as Partial<EncryptedTokenFile>;
+  if (
+    sealed.version !== 1 ||
+    sealed.kdf !== "scrypt" ||
+    !sealed.salt ||
+    !sealed.iv ||
+    !sealed.tag ||
+    !sealed.ciphertext
+  ) {
+    throw new Error(`${file} is not an encrypted token file`);
+  }
+
+  const key = await deriveKey(passphrase, Buffer.from(sealed.salt, "base64"));
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(sealed.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(sealed.ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new Error(
+      `Failed to decrypt ${file}: wrong passphrase or corrupted file`,
+    );
+  }
+
+  const pair = JSON.parse(plaintext) as Partial<PersistedTokenPair>;
+  if (
+    typeof pair.access_token !== "string" ||
+    typeof pair.refresh_token !== "string" ||
+    typeof pair.expires_at !== "number"
+  ) {
+    throw new Error(`Encrypted token file ${file} is missing required fields`);
+  }
+  return {
+    access_token: pair.access_token,
+    refresh_token: pair.refresh_token,
+    expires_at: pair.expires_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, (err, key) =>
+      err ? reject(err) : resolve(key),
+    );
+  });
+}
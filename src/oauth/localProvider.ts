@@ -0,0 +1,130 @@
+/**
+ * Local provider mode of the proxy.
+ *
+ * Requests go to a self-hosted OpenAI-compatible server (vLLM, llama.cpp,
+ * Ollama, ...) inside the network instead of the ChatGPT backend, so no code
+ * leaves it.  Nothing is transformed: `/v1/responses` and
+ * `/v1/chat/completions` are forwarded to the same API under the server's
+ * base URL, with optional static headers (e.g. a gateway's credentials)
+ * attached.  Codex talks to whichever API the server implements, selected by
+ * `wire_api` in its config.
+ */
+
+import type { UpstreamEvent } from "./responseHandler";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LocalProvider {
+  /** Base URL of the OpenAI-compatible API, e.g. `http://vllm:8000/v1`. */
+  baseUrl: string;
+  /** Headers added to every upstream request. */
+  headers?: Record<string, string>;
+}
+
+/** Shape of the `usage` block of a Chat Completions response. */
+interface ChatUsage {
+  prompt_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+  total_tokens?: number;
+}
+
+/** RFC 9110 header field name. */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Resolve the upstream URLs of both APIs for `provider`. */
+export function resolveLocalProvider(provider: LocalProvider): {
+  responsesUrl: string;
+  chatUrl: string;
+  headers: Record<string, string>;
+} {
+  const base = new URL(provider.baseUrl);
+  if (base.protocol !== "http:" && base.protocol !== "https:") {
+    throw new Error(`Unsupported local provider URL: ${provider.baseUrl}`);
+  }
+  const baseUrl = base.href.replace(/\/+$/, "");
+  return {
+    responsesUrl: `${baseUrl}/responses`,
+    chatUrl: `${baseUrl}/chat/completions`,
+    headers: { ...provider.headers },
+  };
+}
+
+/**
+ * Parse static headers given as a JSON object of strings, e.g.
+ * `{"Authorization": "Bearer ..."}`.  `source` names the setting in errors.
+ */
+export function parseStaticHeaders(
+  json: string,
+  source: string,
+): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    throw new Error(
+      `${source} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  if (typeof parsed !== "object" || parsed == null || Array.isArray(parsed)) {
+    throw new Error(
+      `${source} must be a JSON object of header names to values`,
+    );
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new Error(`${source} has an invalid header name: ${name}`);
+    }
+    if (typeof value !== "string" || /[\r\n]/.test(value)) {
+      throw new Error(`${source} header ${name} must be a single-line string`);
+    }
+    headers[name] = value;
+  }
+  return headers;
+}
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+/**
+ * Restate the usage of a Chat Completions chunk or response as the
+ * `response.completed` event the usage tracker counts.  Non-streaming bodies
+ * arrive as the `response` of such an event already (see
+ * `passThroughResponse`).  Returns `null` for events without usage.
+ */
+export function chatUsageEvent(event: UpstreamEvent): UpstreamEvent | null {
+  const payload = (
+    event.type === "response.completed" ? event.response : event
+  ) as { model?: string; usage?: ChatUsage | null } | undefined;
+  const usage = payload?.usage;
+  if (!usage) {
+    return null;
+  }
+  return {
+    type: "response.completed",
+    response: {
+      model: payload.model,
+      usage: {
+        input_tokens: usage.prompt_tokens,
+        input_tokens_details: {
+          cached_tokens: usage.prompt_tokens_details?.cached_tokens,
+        },
+        output_tokens: usage.completion_tokens,
+        output_tokens_details: {
+          reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens,
+        },
+        total_tokens: usage.total_tokens,
+      },
+    },
+  };
+}
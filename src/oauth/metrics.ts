@@ -0,0 +1,109 @@
+/**
+ * In-process metrics for the OAuth proxy, rendered in the Prometheus text
+ * exposition format by `GET /metrics`.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ProxyMetrics {
+  /** Count a request answered by the proxy with the given HTTP status. */
+  recordRequest(status: number): void;
+  /** Time until upstream response headers arrived. */
+  observeUpstreamLatency(seconds: number): void;
+  recordTokenRefresh(result: "success" | "failure"): void;
+  /** Bytes of upstream response body forwarded downstream. */
+  addBytesStreamed(bytes: number): void;
+  render(): string;
+}
+
+/** Upper bounds (seconds) of the upstream latency histogram buckets. */
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export function createProxyMetrics(
+  startedAt: number = Date.now(),
+): ProxyMetrics {
+  const requestsByStatus = new Map<number, number>();
+  const latencyBuckets = LATENCY_BUCKETS.map(() => 0);
+  let latencyCount = 0;
+  let latencySum = 0;
+  const refreshes = { success: 0, failure: 0 };
+  let bytesStreamed = 0;
+
+  return {
+    recordRequest(status) {
+      requestsByStatus.set(status, (requestsByStatus.get(status) ?? 0) + 1);
+    },
+
+    observeUpstreamLatency(seconds) {
+      latencyCount++;
+      latencySum += seconds;
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        if (seconds <= bound) latencyBuckets[index]++;
+      });
+    },
+
+    recordTokenRefresh(result) {
+      refreshes[result]++;
+    },
+
+    addBytesStreamed(bytes) {
+      bytesStreamed += bytes;
+    },
+
+    render() {
+      const lines: string[] = [];
+
+      lines.push(
+        "# HELP codex_proxy_requests_total Requests answered by the proxy, by HTTP status.",
+        "# TYPE codex_proxy_requests_total counter",
+      );
+      for (const [status, count] of [...requestsByStatus].sort(
+        ([a], [b]) => a - b,
+      )) {
+        lines.push(`codex_proxy_requests_total{status="${status}"} ${count}`);
+      }
+
+      lines.push(
+        "# HELP codex_proxy_upstream_latency_seconds Time until upstream response headers arrived.",
+        "# TYPE codex_proxy_upstream_latency_seconds histogram",
+      );
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        lines.push(
+          `codex_proxy_upstream_latency_seconds_bucket{le="${bound}"} ${latencyBuckets[index]}`,
+        );
+      });
+      lines.push(
+        `codex_proxy_upstream_latency_seconds_bucket{le="+Inf"} ${latencyCount}`,
+        `codex_proxy_upstream_latency_seconds_sum ${latencySum}`,
+        `codex_proxy_upstream_latency_seconds_count ${latencyCount}`,
+      );
+
+      lines.push(
+        "# HELP codex_proxy_token_refreshes_total OAuth access token refreshes, by result.",
+        "# TYPE codex_proxy_token_refreshes_total counter",
+        `codex_proxy_token_refreshes_total{result="success"} ${refreshes.success}`,
+        `codex_proxy_token_refreshes_total{result="failure"} ${refreshes.failure}`,
+      );
+
+      lines.push(
+        "# HELP codex_proxy_bytes_streamed_total Upstream response body bytes forwarded downstream.",
+        "# TYPE codex_proxy_bytes_streamed_total counter",
+        `codex_proxy_bytes_streamed_total ${bytesStreamed}`,
+      );
+
+      lines.push(
+        "# HELP codex_proxy_uptime_seconds Seconds since the proxy started.",
+        "# TYPE codex_proxy_uptime_seconds gauge",
+        `codex_proxy_uptime_seconds ${(Date.now() - startedAt) / 1000}`,
+      );
+
+      return `${lines.join("\n")}\n`;
+    },
+  };
+}
@@ -3,7 +3,9 @@
  *
  * Maps model config IDs (including reasoning-effort suffixes) to their
  * canonical API model names.  Extracted from the opencode-openai-codex-auth
- * reference implementation.
+ * reference implementation.  Users can merge their own mappings over the
+ * built-in ones (see `createModelResolver`) to use newer models without a
+ * rebuild.
  */
 
 export const MODEL_MAP: Record<string, string> = {
@@ -74,61 +76,255 @@ export const MODEL_MAP: Record<string, string> = {
   "gpt-5-nano": "gpt-5.1",
 };
 
+// ---------------------------------------------------------------------------
+// Plan entitlements
+// ---------------------------------------------------------------------------
+
+/** Canonical models every paid ChatGPT plan can use with Codex. */
+const STANDARD_MODELS = [
+  "gpt-5.1",
+  "gpt-5.1-codex",
+  "gpt-5.1-codex-mini",
+  "gpt-5.1-codex-max",
+  "gpt-5.2",
+  "gpt-5.2-codex",
+];
+
+/** Canonical models reserved for the higher tiers. */
+const PREMIUM_MODELS = ["gpt-5.3", "gpt-5.3-codex"];
+
 /**
- * Normalize a model name to its canonical API form.
+ * Canonical models available to each ChatGPT plan, keyed by the
+ * `chatgpt_plan_type` claim of the access token.  Plans missing from the
+ * table, and models that appear under no plan, are not gated, so the
+ * backend stays the final authority.
  *
- * 1. Strips provider prefix (e.g. "openai/gpt-5-codex" -> "gpt-5-codex")
- * 2. Tries exact lookup in MODEL_MAP
- * 3. Tries case-insensitive lookup
- * 4. Falls back to pattern matching
+ * The backend publishes no entitlement list, so this table is maintained by
+ * hand and can lag behind what the backend actually serves.  That is why
+ * plan gating is opt-in.
  */
-export function normalizeModel(model: string | undefined): string {
-  if (!model) return "gpt-5.1";
+export const PLAN_ENTITLEMENTS: Record<string, readonly string[]> = {
+  free: ["gpt-5.1", "gpt-5.1-codex-mini"],
+  go: ["gpt-5.1", "gpt-5.1-codex-mini"],
+  plus: STANDARD_MODELS,
+  team: STANDARD_MODELS,
+  business: STANDARD_MODELS,
+  edu: STANDARD_MODELS,
+  pro: [...STANDARD_MODELS, ...PREMIUM_MODELS],
+  enterprise: [...STANDARD_MODELS, ...PREMIUM_MODELS],
+};
 
-  // Strip provider prefix
-  const modelId = model.includes("/") ? model.split("/").pop()! : model;
+const GATED_MODELS = new Set(Object.values(PLAN_ENTITLEMENTS).flat());
 
-  // Exact lookup
-  if (MODEL_MAP[modelId]) {
-    return MODEL_MAP[modelId];
-  }
+/**
+ * Whether the plan may use the (canonical) model.  Unknown plans and models
+ * are allowed.
+ */
+export function isModelEntitled(
+  model: string,
+  planType: string | undefined,
+): boolean {
+  const entitled = planType ? PLAN_ENTITLEMENTS[planType] : undefined;
+  return !entitled || !GATED_MODELS.has(model) || entitled.includes(model);
+}
 
-  // Case-insensitive lookup
-  const lower = modelId.toLowerCase();
-  const match = Object.keys(MODEL_MAP).find(
-    (key) => key.toLowerCase() === lower,
-  );
-  if (match) {
-    return MODEL_MAP[match];
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+/**
+ * Substring rules applied (in order, so most specific first) to lowercased
+ * names that are not in the map.  A rule matches if the name contains any of
+ * its `match` strings.
+ */
+export interface ModelPattern {
+  match: string | string[];
+  model: string;
+}
+
+export const MODEL_PATTERNS: ModelPattern[] = [
+  { match: ["gpt-5.3-codex", "gpt 5.3 codex"], model: "gpt-5.3-codex" },
+  { match: ["gpt-5.3", "gpt 5.3"], model: "gpt-5.3" },
+  { match: ["gpt-5.2-codex", "gpt 5.2 codex"], model: "gpt-5.2-codex" },
+  { match: ["gpt-5.2", "gpt 5.2"], model: "gpt-5.2" },
+  {
+    match: ["gpt-5.1-codex-max", "gpt 5.1 codex max"],
+    model: "gpt-5.1-codex-max",
+  },
+  {
+    match: ["gpt-5.1-codex-mini", "gpt 5.1 codex mini"],
+    model: "gpt-5.1-codex-mini",
+  },
+  {
+    match: ["codex-mini-latest", "gpt-5-codex-mini", "gpt 5 codex mini"],
+    model: "gpt-5.1-codex-mini",
+  },
+  { match: ["gpt-5.1-codex", "gpt 5.1 codex"], model: "gpt-5.1-codex" },
+  { match: ["gpt-5.1", "gpt 5.1"], model: "gpt-5.1" },
+];
+
+/** Model used when a request names none. */
+const DEFAULT_MODEL = "gpt-5.1";
+
+// ---------------------------------------------------------------------------
+// Custom mappings
+// ---------------------------------------------------------------------------
+
+/**
+ * User-supplied mappings merged over the built-in ones, e.g. to use a model
+ * that shipped after this build:
+ *
+ *   { "models": { "gpt-5.4": "gpt-5.4", "gpt-5.4-high": "gpt-5.4" },
+ *     "patterns": [{ "match": "gpt-5.4", "model": "gpt-5.4" }] }
+ *
+ * `models` entries override built-in entries of the same name; `patterns`
+ * are tried before the built-in patterns.
+ */
+export interface ModelMapConfig {
+  models?: Record<string, string>;
+  patterns?: ModelPattern[];
+}
+
+/** Validate parsed JSON as a `ModelMapConfig`; `source` names it in errors. */
+export function parseModelMapConfig(
+  value: unknown,
+  source: string,
+): ModelMapConfig {
+  if (value == null || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(
+      `${source} must be a JSON object with "models" and/or "patterns"`,
+    );
+  }
+  const { models, patterns, ...rest } = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) {
+    throw new Error(
+      `${source} has unknown keys: ${unknownKeys.join(", ")} (expected "models" and/or "patterns")`,
+    );
   }
 
-  // Pattern-based fallback (most specific first)
-  if (lower.includes("gpt-5.3-codex") || lower.includes("gpt 5.3 codex"))
-    return "gpt-5.3-codex";
-  if (lower.includes("gpt-5.3") || lower.includes("gpt 5.3")) return "gpt-5.3";
-  if (lower.includes("gpt-5.2-codex") || lower.includes("gpt 5.2 codex"))
-    return "gpt-5.2-codex";
-  if (lower.includes("gpt-5.2") || lower.includes("gpt 5.2")) return "gpt-5.2";
-  if (
-    lower.includes("gpt-5.1-codex-max") ||
-    lower.includes("gpt 5.1 codex max")
-  )
-    return "gpt-5.1-codex-max";
   if (
-    lower.includes("gpt-5.1-codex-mini") ||
-    lower.includes("gpt 5.1 codex mini")
-  )
-    return "gpt-5.1-codex-mini";
+    models != null &&
+    (typeof models !== "object" ||
+      Array.isArray(models) ||
+      !Object.values(models).every(isNonEmptyString))
+  ) {
+    throw new Error(
+      `"models" in ${source} must map model names to model names`,
+    );
+  }
+
   if (
-    lower.includes("codex-mini-latest") ||
-    lower.includes("gpt-5-codex-mini") ||
-    lower.includes("gpt 5 codex mini")
-  )
-    return "gpt-5.1-codex-mini";
-  if (lower.includes("gpt-5.1-codex") || lower.includes("gpt 5.1 codex"))
-    return "gpt-5.1-codex";
-  if (lower.includes("gpt-5.1") || lower.includes("gpt 5.1")) return "gpt-5.1";
-
-  // Unknown model — pass through as-is so the backend can decide
-  return modelId;
+    patterns != null &&
+    (!Array.isArray(patterns) || !patterns.every(isModelPattern))
+  ) {
+    throw new Error(
+      `"patterns" in ${source} must be an array of { "match": string | string[], "model": string }`,
+    );
+  }
+
+  return {
+    models: models as Record<string, string> | undefined,
+    patterns: patterns as ModelPattern[] | undefined,
+  };
+}
+
+/** Merge configs in order; later ones win. */
+export function mergeModelMapConfigs(
+  configs: ModelMapConfig[],
+): ModelMapConfig {
+  return {
+    models: Object.assign({}, ...configs.map((config) => config.models)),
+    patterns: [...configs].reverse().flatMap((config) => config.patterns ?? []),
+  };
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isModelPattern(value: unknown): boolean {
+  if (value == null || typeof value !== "object") return false;
+  const { match, model } = value as Record<string, unknown>;
+  const matches = Array.isArray(match) ? match : [match];
+  return (
+    isNonEmptyString(model) &&
+    matches.length > 0 &&
+    matches.every(isNonEmptyString)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+export interface ModelResolver {
+  /** Canonical API name for a requested model. */
+  normalize(model: string | undefined): string;
+  /** Every exact mapping, custom ones marked. */
+  mappings(): Array<{ name: string; model: string; custom: boolean }>;
+  /** Patterns in the order they are tried. */
+  patterns(): Array<ModelPattern & { custom: boolean }>;
+}
+
+/**
+ * Build a resolver over the built-in `MODEL_MAP` and `MODEL_PATTERNS` with
+ * `config` merged over them.
+ */
+export function createModelResolver(
+  config: ModelMapConfig = {},
+): ModelResolver {
+  const map: Record<string, string> = { ...MODEL_MAP, ...config.models };
+  const customNames = new Set(Object.keys(config.models ?? {}));
+  const patterns = [
+    ...(config.patterns ?? []).map((pattern) => ({ ...pattern, custom: true })),
+    ...MODEL_PATTERNS.map((pattern) => ({ ...pattern, custom: false })),
+  ];
+  const lowerNames = new Map(
+    Object.keys(map).map((name) => [name.toLowerCase(), name]),
+  );
+
+  return {
+    normalize(model) {
+      if (!model) return DEFAULT_MODEL;
+
+      // Strip provider prefix (e.g. "openai/gpt-5-codex" -> "gpt-5-codex")
+      const modelId = model.includes("/") ? model.split("/").pop()! : model;
+
+      // Exact lookup, then case-insensitive lookup
+      if (map[modelId]) {
+        return map[modelId];
+      }
+      const lower = modelId.toLowerCase();
+      const match = lowerNames.get(lower);
+      if (match) {
+        return map[match];
+      }
+
+      // Pattern-based fallback (most specific first)
+      const pattern = patterns.find((candidate) =>
+        [candidate.match]
+          .flat()
+          .some((part) => lower.includes(part.toLowerCase())),
+      );
+      if (pattern) {
+        return pattern.model;
+      }
+
+      // Unknown model — pass through as-is so the backend can decide
+      return modelId;
+    },
+
+    mappings() {
+      return Object.entries(map).map(([name, model]) => ({
+        name,
+        model,
+        custom: customNames.has(name),
+      }));
+    },
+
+    patterns() {
+      return patterns;
+    },
+  };
 }
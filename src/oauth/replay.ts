@@ -0,0 +1,148 @@
+/**
+ * Replay of recorded proxy transcripts.
+ *
+ * In replay mode the proxy never contacts the ChatGPT backend: each
+ * `/v1/responses` call is answered with an exchange from a transcript written
+ * by `createTranscriptRecorder`, re-encoded as the SSE stream the backend
+ * originally sent.  This makes workflow runs deterministic and offline.
+ */
+
+import { readFile } from "node:fs/promises";
+
+import { hashRequestBody, type TranscriptEntry } from "./transcript";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * How incoming requests are paired with recorded exchanges:
+ * - `order`: the n-th request gets the n-th recorded exchange.
+ * - `hash`: a request gets the next unused exchange whose normalized
+ *   (transformed) body hashes identically.
+ */
+export type ReplayMatch = "order" | "hash";
+
+export interface ReplaySource {
+  /** Number of recorded exchanges that have not been served yet. */
+  readonly remaining: number;
+  /**
+   * Return the upstream response to serve for the transformed request body,
+   * or `null` if no recorded exchange matches.
+   */
+  respond(transformedBody: unknown): Response | null;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+export async function loadReplaySource(
+  file: string,
+  match: ReplayMatch,
+): Promise<ReplaySource> {
+  const contents = await readFile(file, "utf-8");
+  const entries: TranscriptEntry[] = [];
+  contents.split("\n").forEach((line, index) => {
+    if (line.trim() === "") return;
+    let entry: TranscriptEntry;
+    try {
+      entry = JSON.parse(line) as TranscriptEntry;
+    } catch {
+      throw new Error(`Invalid JSON on line ${index + 1} of ${file}`);
+    }
+    // The client never saw these; the proxy moved on to another attempt.
+    if (!entry.internal) {
+      entries.push(entry);
+    }
+  });
+
+  if (entries.length === 0) {
+    throw new Error(`Transcript ${file} contains no recorded exchanges`);
+  }
+
+  return match === "hash"
+    ? createHashReplaySource(entries)
+    : createOrderedReplaySource(entries);
+}
+
+function createOrderedReplaySource(entries: TranscriptEntry[]): ReplaySource {
+  let next = 0;
+  return {
+    get remaining() {
+      return entries.length - next;
+    },
+    respond() {
+      if (next >= entries.length) return null;
+      return toUpstreamResponse(entries[next++]);
+    },
+  };
+}
+
+function createHashReplaySource(entries: TranscriptEntry[]): ReplaySource {
+  // Identical requests are answered in the order they were recorded.
+  const queues = new Map<string, TranscriptEntry[]>();
+  for (const entry of entries) {
+    const hash = entry.request.hash;
+    if (!hash) {
+      throw new Error(
+        "Transcript entries have no request hash; re-record the transcript or use ordered matching",
+      );
+    }
+    const queue = queues.get(hash) ?? [];
+    queue.push(entry);
+    queues.set(hash, queue);
+  }
+
+  let remaining = entries.length;
+  return {
+    get remaining() {
+      return remaining;
+    },
+    respond(transformedBody) {
+      const entry = queues.get(hashRequestBody(transformedBody))?.shift();
+      if (!entry) return null;
+      remaining--;
+      return toUpstreamResponse(entry);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Response reconstruction
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuild the upstream `Response` for a recorded exchange so it can go
+ * through `handleUpstreamResponse` exactly like a live one.
+ */
+function toUpstreamResponse(entry: TranscriptEntry): Response {
+  const { status, events, error_body } = entry.response;
+
+  // The backend was unreachable when this exchange was recorded.
+  if (status == null) {
+    return new Response(
+      JSON.stringify({ error: "Failed to reach ChatGPT backend" }),
+      { status: 502, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  if (status < 200 || status >= 300) {
+    return new Response(error_body ?? "", {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const sse = events
+    .map((event) => {
+      const name =
+        typeof event.type === "string" ? `event: ${event.type}\n` : "";
+      return `${name}data: ${JSON.stringify(event)}\n\n`;
+    })
+    .join("");
+  return new Response(sse, {
+    status,
+    headers: { "Content-Type": "text/event-stream; charset=utf-8" },
+  });
+}
@@ -5,7 +5,7 @@
  * backend API at `https://chatgpt.com/backend-api/codex/responses`.
  */
 
-import { normalizeModel } from "./modelMap";
+import { createModelResolver, type ModelResolver } from "./modelMap";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -18,7 +18,7 @@ const CODEX_BACKEND_URL =
 // Types (minimal — only what the proxy needs)
 // ---------------------------------------------------------------------------
 
-interface InputItem {
+export interface InputItem {
   id?: string;
   type: string;
   [key: string]: unknown;
@@ -34,10 +34,11 @@ export interface RequestBody {
   store?: boolean;
   stream?: boolean;
   instructions?: string;
-  input?: InputItem[];
+  input?: InputItem[] | string;
+  previous_response_id?: string;
   tools?: unknown;
   reasoning?: ReasoningConfig;
-  text?: { verbosity?: string };
+  text?: { verbosity?: string; format?: unknown };
   include?: string[];
   max_output_tokens?: number;
   max_completion_tokens?: number;
@@ -48,28 +49,36 @@ export interface RequestBody {
 // URL rewriting
 // ---------------------------------------------------------------------------
 
-/** Return the full ChatGPT backend URL for a Codex responses request. */
-export function getBackendUrl(): string {
-  return CODEX_BACKEND_URL;
+/**
+ * Return the full ChatGPT backend URL for a Codex responses request, or
+ * `override` when the proxy has been pointed elsewhere (e.g. a fake backend).
+ */
+export function getBackendUrl(override?: string): string {
+  return override ?? CODEX_BACKEND_URL;
 }
 
 // ---------------------------------------------------------------------------
 // Body transformation
 // ---------------------------------------------------------------------------
 
+const defaultModels = createModelResolver();
+
 /**
  * Transform a request body from Codex CLI format into the ChatGPT backend
  * format.  Returns the transformed body and the *original* value of `stream`
  * (so the response handler knows whether to convert SSE → JSON).
  */
-export function transformRequestBody(body: RequestBody): {
+export function transformRequestBody(
+  body: RequestBody,
+  models: ModelResolver = defaultModels,
+): {
   transformed: RequestBody;
   wasStreaming: boolean;
 } {
   const wasStreaming = body.stream === true;
 
   // Normalize model name
-  body.model = normalizeModel(body.model);
+  body.model = models.normalize(body.model);
 
   // ChatGPT backend requires store=false (stateless)
   body.store = false;
@@ -4,11 +4,39 @@
  * - Streaming requests: pipe the upstream SSE stream directly to the client.
  * - Non-streaming requests: consume the SSE stream, extract the final
  *   `response.done` event, and return it as a single JSON object.
+ * - Events are parsed as they arrive (see `sseParser.ts`), without buffering
+ *   the body.
  * - Maps 404 "usage limit" errors to 429 so Codex CLI can retry.
+ * - API-key mode: pass the Responses API's answer through unchanged.
  */
 
 import type { ServerResponse } from "node:http";
 
+import { createSseParser } from "./sseParser";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A parsed SSE `data:` payload from the ChatGPT backend. */
+export interface UpstreamEvent {
+  type?: string;
+  response?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Optional hooks for observing the upstream response as it is forwarded.
+ */
+export interface ResponseObserver {
+  /** Called with every SSE event received from upstream, in order. */
+  onEvent?(event: UpstreamEvent): void;
+  /** Called with the raw body of a non-2xx upstream response. */
+  onErrorBody?(body: string): void;
+  /** Called with the size of every upstream body chunk as it is read. */
+  onBytes?(bytes: number): void;
+}
+
 // ---------------------------------------------------------------------------
 // Main entry point
 // ---------------------------------------------------------------------------
@@ -22,10 +50,12 @@ export async function handleUpstreamResponse(
   upstream: Response,
   downstream: ServerResponse,
   wasStreaming: boolean,
+  observer: ResponseObserver = {},
 ): Promise<void> {
   // Handle 404 with usage-limit detection → 429
   if (upstream.status === 404) {
     const body = await upstream.text().catch(() => "");
+    observer.onErrorBody?.(body);
     const status = isUsageLimitBody(body) ? 429 : 404;
     downstream.writeHead(status, { "Content-Type": "application/json" });
     downstream.end(body);
@@ -35,6 +65,7 @@ export async function handleUpstreamResponse(
   // Forward other errors as-is
   if (!upstream.ok) {
     const body = await upstream.text().catch(() => "");
+    observer.onErrorBody?.(body);
     downstream.writeHead(upstream.status, {
       "Content-Type": "application/json",
     });
@@ -44,9 +75,9 @@ export async function handleUpstreamResponse(
 
   // Success path
   if (wasStreaming) {
-    await pipeStream(upstream, downstream);
+    await pipeStream(upstream, downstream, observer);
   } else {
-    await convertSseToJson(upstream, downstream);
+    await convertSseToJson(upstream, downstream, observer);
   }
 }
 
@@ -57,6 +88,7 @@ export async function handleUpstreamResponse(
 async function pipeStream(
   upstream: Response,
   downstream: ServerResponse,
+  observer: ResponseObserver,
 ): Promise<void> {
   downstream.writeHead(200, {
     "Content-Type": "text/event-stream; charset=utf-8",
@@ -70,17 +102,87 @@ async function pipeStream(
   }
 
   const reader = upstream.body.getReader();
+  const tap = createEventTap(observer);
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      downstream.write(value);
+      observer.onBytes?.(value.byteLength);
+      tap.push(value);
+    }
+  } catch (err) {
+    console.error("[oauth-proxy] Error piping stream:", err);
+  } finally {
+    tap.flush();
+    downstream.end();
+  }
+}
+
+/**
+ * Forward a response of the real Responses API (API-key mode) unchanged: it
+ * already honours `stream`, so only the status, content type and body are
+ * copied.  SSE events are still reported to the observer.
+ */
+export async function passThroughResponse(
+  upstream: Response,
+  downstream: ServerResponse,
+  observer: ResponseObserver = {},
+): Promise<void> {
+  const contentType =
+    upstream.headers.get("content-type") ?? "application/json";
+  if (!upstream.ok) {
+    const body = await upstream.text().catch(() => "");
+    observer.onErrorBody?.(body);
+    downstream.writeHead(upstream.status, { "Content-Type": contentType });
+    downstream.end(body);
+    return;
+  }
+
+  downstream.writeHead(upstream.status, {
+    "Content-Type": contentType,
+    "Cache-Control": "no-cache",
+  });
+  if (!upstream.body) {
+    downstream.end();
+    return;
+  }
+
+  const reader = upstream.body.getReader();
+  const isStream = contentType.startsWith("text/event-stream");
+  const tap = createEventTap(isStream ? observer : {});
+  const decoder = new TextDecoder();
+  let json = "";
   try {
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
       downstream.write(value);
+      observer.onBytes?.(value.byteLength);
+      if (isStream) {
+        tap.push(value);
+      } else {
+        json += decoder.decode(value, { stream: true });
+      }
     }
   } catch (err) {
     console.error("[oauth-proxy] Error piping stream:", err);
   } finally {
+    tap.flush();
     downstream.end();
   }
+
+  // A non-streaming response is the final response object itself.
+  if (!isStream && observer.onEvent) {
+    try {
+      observer.onEvent({
+        type: "response.completed",
+        response: JSON.parse(json + decoder.decode()),
+      });
+    } catch {
+      // Not JSON; nothing to report.
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -90,6 +192,7 @@ async function pipeStream(
 async function convertSseToJson(
   upstream: Response,
   downstream: ServerResponse,
+  observer: ResponseObserver,
 ): Promise<void> {
   if (!upstream.body) {
     downstream.writeHead(502, { "Content-Type": "application/json" });
@@ -99,15 +202,27 @@ async function convertSseToJson(
     return;
   }
 
-  const reader = upstream.body.getReader();
-  const decoder = new TextDecoder();
-  let fullText = "";
+  // Only the final response is kept, so memory stays flat on long streams.
+  let finalResponse: unknown = null;
+  const tap = createEventTap({
+    onEvent: (event) => {
+      observer.onEvent?.(event);
+      if (
+        finalResponse == null &&
+        (event.type === "response.done" || event.type === "response.completed")
+      ) {
+        finalResponse = event.response ?? null;
+      }
+    },
+  });
 
+  const reader = upstream.body.getReader();
   try {
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
-      fullText += decoder.decode(value, { stream: true });
+      observer.onBytes?.(value.byteLength);
+      tap.push(value);
     }
   } catch (err) {
     console.error("[oauth-proxy] Error reading SSE stream:", err);
@@ -117,63 +232,88 @@ async function convertSseToJson(
     );
     return;
   }
+  tap.flush();
 
-  const finalResponse = parseSseStream(fullText);
-
-  if (finalResponse != null) {
-    const json = JSON.stringify(finalResponse);
-    downstream.writeHead(200, {
-      "Content-Type": "application/json; charset=utf-8",
-    });
-    downstream.end(json);
-  } else {
-    // Could not find a response.done event — return the raw SSE text so the
-    // caller can attempt to parse it.
+  if (finalResponse == null) {
+    // The raw stream is not kept, and a client that asked for JSON could not
+    // use it anyway, so this is reported as a gateway error.
     console.error(
       "[oauth-proxy] Could not find response.done event in SSE stream",
     );
-    downstream.writeHead(200, {
-      "Content-Type": "text/event-stream; charset=utf-8",
-    });
-    downstream.end(fullText);
+    downstream.writeHead(502, { "Content-Type": "application/json" });
+    downstream.end(
+      JSON.stringify({
+        error: "Upstream stream ended without a final response",
+      }),
+    );
+    return;
   }
+
+  downstream.writeHead(200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+  downstream.end(JSON.stringify(finalResponse));
 }
 
 /**
- * Walk SSE lines looking for `data: {..., "type": "response.done", ...}` or
- * `"type": "response.completed"` and return the `.response` payload.
+ * Parse a stream as it is forwarded and report each event's JSON payload to
+ * the observer, skipping payloads that are not JSON objects (such as
+ * `[DONE]`).  A no-op when nobody is listening.
  */
-function parseSseStream(sseText: string): unknown | null {
-  const lines = sseText.split("\n");
+export function createEventTap(observer: ResponseObserver): {
+  push(chunk: Uint8Array): void;
+  flush(): void;
+} {
+  const onEvent = observer.onEvent;
+  if (!onEvent) {
+    return { push() {}, flush() {} };
+  }
 
-  for (const line of lines) {
-    if (!line.startsWith("data: ")) continue;
-    try {
-      const data = JSON.parse(line.substring(6)) as {
-        type?: string;
-        response?: unknown;
-      };
-      if (
-        data.type === "response.done" ||
-        data.type === "response.completed"
-      ) {
-        return data.response;
-      }
-    } catch {
-      // Skip malformed JSON lines
+  const parser = createSseParser((message) => {
+    const event = parseEventData(message.data);
+    if (event != null) {
+      onEvent(event);
     }
-  }
+  });
+  return {
+    push: (chunk) => parser.push(chunk),
+    flush: () => parser.end(),
+  };
+}
 
-  return null;
+function parseEventData(data: string): UpstreamEvent | null {
+  try {
+    const parsed: unknown = JSON.parse(data);
+    if (typeof parsed !== "object" || parsed == null || Array.isArray(parsed)) {
+      return null;
+    }
+    return parsed as UpstreamEvent;
+  } catch {
+    // Skip malformed JSON payloads
+    return null;
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Error remapping
 // ---------------------------------------------------------------------------
 
-function isUsageLimitBody(body: string): boolean {
+/** Whether an upstream error body reports an exhausted usage limit. */
+export function isUsageLimitBody(body: string): boolean {
   const haystack = body.toLowerCase();
   return /usage_limit_reached|usage_not_included|rate_limit_exceeded|usage limit/.test(
     haystack,
   );
 }
+
+/**
+ * Whether an upstream error body reports that the requested model does not
+ * exist or cannot be used, e.g. `The 'gpt-x' model is not supported when
+ * using Codex with a ChatGPT account.`
+ */
+export function isModelUnavailableBody(body: string): boolean {
+  const haystack = body.toLowerCase();
+  return /model_not_found|unsupported_model|model[^.]{0,80}\b(not supported|not found|does not exist|not available)/.test(
+    haystack,
+  );
+}
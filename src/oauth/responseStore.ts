@@ -0,0 +1,295 @@
+/**
+ * Local store of completed responses, standing in for the Responses API
+ * state the stateless ChatGPT backend does not keep.
+ *
+ * Responses to requests that did not opt out with `store: false` are kept in
+ * memory and written to an owner-only directory, one JSON file per response.
+ * Each holds only its own turn plus a link to the response it continues, so
+ * the store grows linearly with the conversation; the oldest responses are
+ * evicted beyond a fixed number.  Later requests can then refer to them:
+ * - `previous_response_id` is expanded into the earlier input and output, so
+ *   the backend sees the whole conversation.
+ * - `item_reference` input items are replaced by the stored item.
+ * - `GET /v1/responses/{id}` returns the stored response.
+ */
+
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+
+import type { InputItem, RequestBody } from "./requestTransformer";
+import type { UpstreamEvent } from "./responseHandler";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StoredResponse {
+  /**
+   * Response this one continues, whose conversation precedes `input`, or
+   * `null` for the first turn.
+   */
+  previous_response_id?: string | null;
+  /** Input of this turn only, with item references resolved. */
+  input: InputItem[];
+  /** Response object from the final SSE event, with its output items. */
+  response: { id: string; output: InputItem[]; [key: string]: unknown };
+}
+
+export type ExpandResult =
+  | {
+      type: "expanded";
+      /** Full input for the backend, earlier turns included. */
+      input: InputItem[];
+      /** Whether anything was expanded, i.e. the body needs the new input. */
+      changed: boolean;
+      /** Input of this turn only, with item references resolved. */
+      turn: InputItem[];
+      previousResponseId: string | null;
+    }
+  | {
+      type: "not_found";
+      code: "previous_response_not_found" | "item_not_found";
+      message: string;
+    };
+
+export interface ResponseStore {
+  readonly dir: string;
+  get(id: string): StoredResponse | null;
+  /**
+   * Resolve `previous_response_id` and `item_reference` items of a request
+   * into full input.  The body is not modified.
+   */
+  expand(body: RequestBody): ExpandResult;
+  /**
+   * Return an observer for the upstream SSE events of an expanded request,
+   * which stores the response once it completes.
+   */
+  capture(
+    request: Pick<
+      Extract<ExpandResult, { type: "expanded" }>,
+      "turn" | "previousResponseId"
+    >,
+  ): (event: UpstreamEvent) => void;
+}
+
+/** IDs are used as file names, so anything else is never looked up. */
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/** Responses kept before the oldest are evicted. */
+export const DEFAULT_MAX_STORED_RESPONSES = 1000;
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+/**
+ * Open (creating it owner-only if needed) the store directory and load the
+ * newest responses already in it, e.g. from a proxy that was restarted.
+ * Beyond `maxResponses`, the oldest responses are evicted, on disk too.
+ */
+export async function createResponseStore(
+  dir: string,
+  maxResponses = DEFAULT_MAX_STORED_RESPONSES,
+): Promise<ResponseStore> {
+  await mkdir(dir, { recursive: true, mode: 0o700 });
+
+  // In insertion order, so the first entry is the oldest.
+  const responses = new Map<string, StoredResponse>();
+  const items = new Map<string, { item: InputItem; responseId: string }>();
+
+  const itemsOf = (stored: StoredResponse) => [
+    ...stored.input,
+    ...stored.response.output,
+  ];
+  const fileOf = (id: string) => join(dir, `${id}.json`);
+
+  // Serialize file operations so a burst of responses never races on the
+  // directory.
+  let pending: Promise<void> = Promise.resolve();
+  const enqueue = (operation: () => Promise<void>) => {
+    pending = pending.then(operation).catch((err) => {
+      console.error("[oauth-proxy] Failed to update the response store:", err);
+    });
+  };
+
+  const evict = (id: string) => {
+    const stored = responses.get(id);
+    if (!stored) return;
+    responses.delete(id);
+    for (const item of itemsOf(stored)) {
+      if (
+        typeof item.id === "string" &&
+        items.get(item.id)?.responseId === id
+      ) {
+        items.delete(item.id);
+      }
+    }
+    enqueue(() => rm(fileOf(id), { force: true }));
+  };
+
+  const index = (stored: StoredResponse) => {
+    const id = stored.response.id;
+    responses.delete(id);
+    responses.set(id, stored);
+    for (const item of itemsOf(stored)) {
+      if (typeof item.id === "string") {
+        items.set(item.id, { item, responseId: id });
+      }
+    }
+    for (const oldest of responses.keys()) {
+      if (responses.size <= maxResponses) break;
+      evict(oldest);
+    }
+  };
+
+  const files: { name: string; mtimeMs: number }[] = [];
+  for (const name of await readdir(dir)) {
+    if (!name.endsWith(".json")) continue;
+    try {
+      files.push({ name, mtimeMs: (await stat(join(dir, name))).mtimeMs });
+    } catch {
+      // Removed in the meantime.
+    }
+  }
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const { name } of files) {
+    try {
+      index(
+        JSON.parse(await readFile(join(dir, name), "utf-8")) as StoredResponse,
+      );
+    } catch (err) {
+      console.warn(
+        `[oauth-proxy] Skipping unreadable stored response ${name}:`,
+        err,
+      );
+    }
+  }
+
+  const save = (stored: StoredResponse) => {
+    index(stored);
+    if (!responses.has(stored.response.id)) return;
+    enqueue(() =>
+      writeFile(fileOf(stored.response.id), JSON.stringify(stored), {
+        mode: 0o600,
+      }),
+    );
+  };
+
+  /**
+   * The conversation up to and including `id`: the input and output of every
+   * turn, oldest first.  Returns `null` if a response in the chain is missing.
+   */
+  const conversation = (id: string): InputItem[] | null => {
+    const chain: StoredResponse[] = [];
+    const seen = new Set<string>();
+    for (
+      let next: string | null | undefined = id;
+      next != null && next !== "";
+      next = chain[chain.length - 1].previous_response_id
+    ) {
+      const stored = responses.get(next);
+      if (!stored || seen.has(next)) {
+        return null;
+      }
+      seen.add(next);
+      chain.push(stored);
+    }
+    return chain.reverse().flatMap(itemsOf);
+  };
+
+  return {
+    dir,
+
+    get(id) {
+      return ID_PATTERN.test(id) ? (responses.get(id) ?? null) : null;
+    },
+
+    expand(body) {
+      const input: InputItem[] = [];
+      const turn: InputItem[] = [];
+      let changed = false;
+
+      const previousId = body.previous_response_id;
+      const previousResponseId =
+        typeof previousId === "string" && previousId !== "" ? previousId : null;
+      if (previousResponseId != null) {
+        const previous = conversation(previousResponseId);
+        if (!previous) {
+          return {
+            type: "not_found",
+            code: "previous_response_not_found",
+            message: `Previous response with id '${previousResponseId}' not found.`,
+          };
+        }
+        input.push(...previous);
+        changed = true;
+      }
+
+      // The Responses API also accepts a plain string as the user's input.
+      const own: InputItem[] =
+        typeof body.input === "string"
+          ? [{ type: "message", role: "user", content: body.input }]
+          : (body.input ?? []);
+      for (const item of own) {
+        if (item.type !== "item_reference") {
+          turn.push(item);
+          continue;
+        }
+        const referenced =
+          typeof item.id === "string" ? items.get(item.id)?.item : undefined;
+        if (!referenced) {
+          return {
+            type: "not_found",
+            code: "item_not_found",
+            message: `Item with id '${String(item.id)}' not found.`,
+          };
+        }
+        turn.push(referenced);
+        changed = true;
+      }
+      input.push(...turn);
+
+      return { type: "expanded", input, changed, turn, previousResponseId };
+    },
+
+    capture({ turn, previousResponseId }) {
+      // The backend may leave `output` empty on the final event, so collect
+      // the items as they complete.
+      const output: InputItem[] = [];
+      return (event) => {
+        if (event.type === "response.output_item.done" && event.item) {
+          output.push(event.item as InputItem);
+          return;
+        }
+        if (
+          event.type !== "response.completed" &&
+          event.type !== "response.done"
+        ) {
+          return;
+        }
+        const response = event.response as
+          | { id?: unknown; output?: InputItem[] }
+          | undefined;
+        if (typeof response?.id !== "string" || !ID_PATTERN.test(response.id)) {
+          return;
+        }
+        save({
+          previous_response_id: previousResponseId,
+          input: turn,
+          response: {
+            ...response,
+            id: response.id,
+            output: response.output?.length ? response.output : output,
+          },
+        });
+      };
+    },
+  };
+}
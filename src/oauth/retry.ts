@@ -0,0 +1,157 @@
+/**
+ * Retry with exponential backoff for transient upstream failures.
+ *
+ * Only whole requests are retried: callers must not have sent anything
+ * downstream yet, which holds as long as the retry happens before the
+ * response is handed to `handleUpstreamResponse`.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RetryPolicy {
+  /** Number of retries after the first attempt (0 disables retries). */
+  maxRetries: number;
+  /** Delay before the first retry; doubles on every subsequent retry. */
+  baseDelayMs: number;
+  /** Upper bound for a single delay, including `Retry-After` values. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** Gateway errors that are worth retrying without any hint from upstream. */
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+// ---------------------------------------------------------------------------
+// Fetch wrapper
+// ---------------------------------------------------------------------------
+
+/**
+ * `fetch` that retries network errors, 502/503/504 responses and 429
+ * responses carrying a `Retry-After` header.  The last response (or error)
+ * is returned (or thrown) once the retries are exhausted.  Every retry is
+ * logged, and so is the outcome of the final attempt after a retry.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<Response> {
+  const attempts = policy.maxRetries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    let delayMs: number | null;
+    try {
+      const response = await fetch(url, init);
+      delayMs = retryDelayForResponse(response, attempt, policy);
+      if (delayMs == null || attempt >= attempts) {
+        if (delayMs != null && attempts > 1) {
+          console.error(
+            `[oauth-proxy] Upstream attempt ${attempt}/${attempts} returned ${response.status}; giving up`,
+          );
+        } else if (attempt > 1) {
+          console.log(
+            `[oauth-proxy] Upstream attempt ${attempt}/${attempts} returned ${response.status}`,
+          );
+        }
+        return response;
+      }
+      console.warn(
+        `[oauth-proxy] Upstream attempt ${attempt}/${attempts} returned ${response.status}; retrying in ${delayMs}ms`,
+      );
+      // Release the connection before trying again.
+      await response.body?.cancel().catch(() => {});
+    } catch (err) {
+      if (attempt >= attempts) {
+        if (attempts > 1) {
+          console.error(
+            `[oauth-proxy] Upstream attempt ${attempt}/${attempts} failed (${describeError(err)}); giving up`,
+          );
+        }
+        throw err;
+      }
+      delayMs = backoffDelay(attempt, policy);
+      console.warn(
+        `[oauth-proxy] Upstream attempt ${attempt}/${attempts} failed (${describeError(err)}); retrying in ${delayMs}ms`,
+      );
+    }
+
+    await sleep(delayMs);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Delay computation
+// ---------------------------------------------------------------------------
+
+function retryDelayForResponse(
+  response: Response,
+  attempt: number,
+  policy: RetryPolicy,
+): number | null {
+  if (RETRYABLE_STATUSES.has(response.status)) {
+    return backoffDelay(attempt, policy);
+  }
+
+  if (response.status === 429) {
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    // A 429 without a hint (or with one longer than we are willing to wait)
+    // is most likely a usage limit, so let the client see it.
+    if (retryAfterMs == null || retryAfterMs > policy.maxDelayMs) {
+      return null;
+    }
+    return retryAfterMs;
+  }
+
+  return null;
+}
+
+/** Exponential backoff with jitter in [50%, 100%] of the nominal delay. */
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const nominal = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return Math.round(nominal * (0.5 + Math.random() * 0.5));
+}
+
+/** Parse a `Retry-After` header given either in seconds or as an HTTP date. */
+function parseRetryAfter(value: string | null): number | null {
+  if (value == null || value.trim() === "") {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function describeError(err: unknown): string {
+  if (err instanceof Error) {
+    // Node's fetch wraps socket errors (ECONNRESET, ...) in `cause`.
+    const cause = (err as Error & { cause?: { code?: string } }).cause;
+    return cause?.code ? `${err.message}: ${cause.code}` : err.message;
+  }
+  return String(err);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
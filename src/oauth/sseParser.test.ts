@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { createSseParser, type SseMessage } from "./sseParser";
+
+function parse(chunks: string[], end = true): SseMessage[] {
+  const messages: SseMessage[] = [];
+  const parser = createSseParser((message) => messages.push(message));
+  const encoder = new TextEncoder();
+  for (const chunk of chunks) {
+    parser.push(encoder.encode(chunk));
+  }
+  if (end) {
+    parser.end();
+  }
+  return messages;
+}
+
+describe("createSseParser", () => {
+  it("dispatches an event on a blank line", () => {
+    expect(parse(["event: ping\ndata: 1\n\n"], false)).toEqual([
+      { event: "ping", data: "1", lastEventId: "" },
+    ]);
+  });
+
+  it("joins data fields and defaults the event type to message", () => {
+    expect(parse(["data: a\ndata:b\n\n"])).toEqual([
+      { event: "message", data: "a\nb", lastEventId: "" },
+    ]);
+  });
+
+  it("reassembles events split across chunks", () => {
+    const messages = parse(["ev", "ent: x\nda", 'ta: {"a"', ":1}\n", "\n"]);
+    expect(messages).toEqual([
+      { event: "x", data: '{"a":1}', lastEventId: "" },
+    ]);
+  });
+
+  it("treats a CRLF split across chunks as one line end", () => {
+    const messages = parse(["data: a\r", "\n\r", "\ndata: b\r\n\r\n"]);
+    expect(messages.map((message) => message.data)).toEqual(["a", "b"]);
+  });
+
+  it("decodes multi-byte characters split across chunks", () => {
+    const bytes = new TextEncoder().encode("data: héllo\n\n");
+    const messages: SseMessage[] = [];
+    const parser = createSseParser((message) => messages.push(message));
+    parser.push(bytes.slice(0, 8));
+    parser.push(bytes.slice(8));
+    parser.end();
+    expect(messages.map((message) => message.data)).toEqual(["héllo"]);
+  });
+
+  it("skips comments and events without data", () => {
+    expect(parse([": keep-alive\n\nevent: empty\n\ndata: x\n\n"])).toEqual([
+      { event: "message", data: "x", lastEventId: "" },
+    ]);
+  });
+
+  it("carries the last event ID over to later events", () => {
+    const messages = parse(["id: 7\ndata: a\n\ndata: b\n\n"]);
+    expect(messages.map((message) => message.lastEventId)).toEqual(["7", "7"]);
+  });
+
+  it("dispatches an unterminated trailing event on end", () => {
+    const chunks = ["data: first\n\n", "event: response.completed\ndata: {}"];
+    expect(parse(chunks, false)).toHaveLength(1);
+    expect(parse(chunks)).toEqual([
+      { event: "message", data: "first", lastEventId: "" },
+      { event: "response.completed", data: "{}", lastEventId: "" },
+    ]);
+  });
+
+  it("dispatches a trailing event that ends with a single line end", () => {
+    expect(parse(["data: last\n"]).map((message) => message.data)).toEqual([
+      "last",
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Incremental parser for `text/event-stream` bodies.
+ *
+ * Follows the event stream interpretation of the HTML spec
+ * (https://html.spec.whatwg.org/multipage/server-sent-events.html):
+ * - Lines end with CRLF, LF or CR, even when a chunk boundary splits a CRLF.
+ * - `data:` fields accumulate, joined with newlines, until a blank line
+ *   dispatches the event; an event without data is dropped.
+ * - `event:` sets the event type and `id:` the last event ID, which carries
+ *   over to later events.  `retry:` only matters for reconnecting, which the
+ *   proxy never does, so it is ignored along with unknown fields.
+ * - Lines starting with `:` are comments.
+ * - A leading byte order mark is skipped.
+ * - Unlike the spec, which discards an event that the stream ends in the
+ *   middle of, `end()` still dispatches it: upstreams do not always terminate
+ *   their last event with a blank line, and a final `response.completed`
+ *   must not be lost.
+ *
+ * Only the current line and event are buffered, so memory stays flat however
+ * long the stream runs.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A dispatched event. */
+export interface SseMessage {
+  /** Event type from the `event:` field, `message` if there was none. */
+  event: string;
+  /** The `data:` fields of the event, joined with `\n`. */
+  data: string;
+  /** Most recent `id:` seen in the stream, or `""`. */
+  lastEventId: string;
+}
+
+export interface SseParser {
+  /** Feed the next chunk of the body. */
+  push(chunk: Uint8Array): void;
+  /** Signal the end of the body, dispatching any unterminated event. */
+  end(): void;
+}
+
+const LINE_END = /\r\n|\r|\n/g;
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+/** Create a parser that calls `onMessage` with each event as it completes. */
+export function createSseParser(
+  onMessage: (message: SseMessage) => void,
+): SseParser {
+  // TextDecoder strips a leading BOM by default.
+  const decoder = new TextDecoder();
+  let line = "";
+  /** The last chunk ended with a CR, so a LF starting the next one is its pair. */
+  let skipLeadingLF = false;
+
+  let eventType = "";
+  let data = "";
+  let hasData = false;
+  let lastEventId = "";
+
+  const dispatch = () => {
+    if (hasData) {
+      onMessage({ event: eventType || "message", data, lastEventId });
+    }
+    eventType = "";
+    data = "";
+    hasData = false;
+  };
+
+  const processLine = (text: string) => {
+    if (text === "") {
+      dispatch();
+      return;
+    }
+    if (text.startsWith(":")) return;
+
+    const colon = text.indexOf(":");
+    const field = colon === -1 ? text : text.slice(0, colon);
+    let value = colon === -1 ? "" : text.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        eventType = value;
+        break;
+      case "data":
+        data = hasData ? `${data}\n${value}` : value;
+        hasData = true;
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          lastEventId = value;
+        }
+        break;
+    }
+  };
+
+  const feed = (text: string) => {
+    if (text === "") return;
+    let start = 0;
+    if (skipLeadingLF && text.startsWith("\n")) {
+      start = 1;
+    }
+    skipLeadingLF = false;
+
+    LINE_END.lastIndex = start;
+    let match: RegExpExecArray | null;
+    while ((match = LINE_END.exec(text)) != null) {
+      processLine(line + text.slice(start, match.index));
+      line = "";
+      start = LINE_END.lastIndex;
+      if (match[0] === "\r" && start === text.length) {
+        skipLeadingLF = true;
+      }
+    }
+    line += text.slice(start);
+  };
+
+  return {
+    push(chunk) {
+      feed(decoder.decode(chunk, { stream: true }));
+    },
+    end() {
+      feed(decoder.decode());
+      if (line !== "") {
+        processLine(line);
+        line = "";
+      }
+      dispatch();
+    },
+  };
+}
@@ -5,9 +5,24 @@
  * used to authenticate against `https://chatgpt.com/backend-api/`.
  */
 
-const TOKEN_URL = "https://auth.openai.com/oauth/token";
+import { getIDToken } from "@actions/core";
+
+import {
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+  type RetryPolicy,
+} from "./retry";
+
+export const TOKEN_URL = "https://auth.openai.com/oauth/token";
 const CLIENT_ID = "app_EMoamEEZ73f0CkXaXp7hrann";
-const JWT_CLAIM_PATH = "https://api.openai.com/auth";
+export const JWT_CLAIM_PATH = "https://api.openai.com/auth";
+
+/** Requests refresh the token when it expires within this window. */
+const REFRESH_MARGIN_MS = 60_000;
+/** Background refreshes aim to happen this long before expiry. */
+const PROACTIVE_REFRESH_LEAD_MS = 5 * 60_000;
+/** Lower bound between background refreshes, for very short-lived tokens. */
+const MIN_PROACTIVE_REFRESH_DELAY_MS = 5_000;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -24,17 +39,35 @@ export interface TokenState {
   relayUrl?: string;
   /** API key for the token relay. */
   relayKey?: string;
+  /**
+   * Authenticate to the token relay with a GitHub Actions OIDC ID token for
+   * this audience instead of `relayKey`.
+   */
+  relayAudience?: string;
+  /** Override for the OAuth token endpoint used to refresh. */
+  tokenUrl?: string;
 }
 
 interface JWTPayload {
-  [JWT_CLAIM_PATH]?: { chatgpt_account_id?: string };
+  [JWT_CLAIM_PATH]?: {
+    chatgpt_account_id?: string;
+    chatgpt_plan_type?: string;
+  };
   exp?: number;
+  aud?: string | string[];
   [key: string]: unknown;
 }
 
 type TokenRefreshResult =
   | { type: "success"; access: string; refresh: string; expires: number }
-  | { type: "failed" };
+  | {
+      type: "failed";
+      /** HTTP status of the token endpoint, if it answered. */
+      status?: number;
+      /** OAuth error code, e.g. `invalid_grant` or `refresh_token_expired`. */
+      error?: string;
+      description?: string;
+    };
 
 // ---------------------------------------------------------------------------
 // JWT helpers
@@ -60,6 +93,11 @@ export function getAccountId(accessToken: string): string {
   return accountId;
 }
 
+/** The `chatgpt_plan_type` claim (e.g. `plus`, `pro`), if present. */
+export function getPlanType(accessToken: string): string | undefined {
+  return decodeJWT(accessToken)?.[JWT_CLAIM_PATH]?.chatgpt_plan_type;
+}
+
 // ---------------------------------------------------------------------------
 // Token state
 // ---------------------------------------------------------------------------
@@ -87,7 +125,23 @@ export function loadTokens(
 
 export function shouldRefreshToken(state: TokenState): boolean {
   // Refresh 60 s before actual expiry to avoid races.
-  return state.expires - 60_000 < Date.now();
+  return state.expires - REFRESH_MARGIN_MS < Date.now();
+}
+
+/**
+ * Delay until a background refresh should run so that `shouldRefreshToken`
+ * never trips on the request path: five minutes before expiry, or halfway to
+ * the refresh margin for tokens that are shorter-lived than that.
+ */
+export function proactiveRefreshDelay(state: TokenState): number {
+  const remaining = state.expires - Date.now();
+  return Math.round(
+    Math.max(
+      MIN_PROACTIVE_REFRESH_DELAY_MS,
+      remaining - PROACTIVE_REFRESH_LEAD_MS,
+      (remaining - REFRESH_MARGIN_MS) / 2,
+    ),
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -96,9 +150,10 @@ export function shouldRefreshToken(state: TokenState): boolean {
 
 export async function refreshAccessToken(
   refreshToken: string,
+  tokenUrl: string = TOKEN_URL,
 ): Promise<TokenRefreshResult> {
   try {
-    const response = await fetch(TOKEN_URL, {
+    const response = await fetch(tokenUrl, {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body: new URLSearchParams({
@@ -115,7 +170,11 @@ export async function refreshAccessToken(
         response.status,
         text,
       );
-      return { type: "failed" };
+      return {
+        type: "failed",
+        status: response.status,
+        ...parseOAuthError(text),
+      };
     }
 
     const json = (await response.json()) as {
@@ -133,7 +192,11 @@ export async function refreshAccessToken(
         "[oauth-proxy] Token refresh response missing fields:",
         json,
       );
-      return { type: "failed" };
+      return {
+        type: "failed",
+        status: response.status,
+        description: "token endpoint response is missing fields",
+      };
     }
 
     return {
@@ -144,62 +207,206 @@ export async function refreshAccessToken(
     };
   } catch (error) {
     console.error("[oauth-proxy] Token refresh error:", error);
-    return { type: "failed" };
+    return {
+      type: "failed",
+      description: `could not reach ${tokenUrl}: ${error instanceof Error ? error.message : error}`,
+    };
   }
 }
 
 /**
- * Fetch a fresh access token from the token relay service.
+ * Extract the error code and description from a token endpoint error body,
+ * which is either standard OAuth (`{ error, error_description }`) or nested
+ * (`{ error: { code, message } }`).
  */
-async function fetchFromRelay(state: TokenState): Promise<TokenState> {
-  console.log("[oauth-proxy] Fetching fresh token from relay...");
-  const res = await fetch(state.relayUrl!, {
-    headers: { Authorization: `Bearer ${state.relayKey}` },
-  });
+function parseOAuthError(text: string): {
+  error?: string;
+  description?: string;
+} {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return {};
+  }
+  if (body == null || typeof body !== "object") {
+    return {};
+  }
+  const { error, error_description } = body as Record<string, unknown>;
+  if (typeof error === "string") {
+    return {
+      error,
+      description:
+        typeof error_description === "string" ? error_description : undefined,
+    };
+  }
+  if (error != null && typeof error === "object") {
+    const { code, type, message } = error as Record<string, unknown>;
+    return {
+      error:
+        typeof code === "string"
+          ? code
+          : typeof type === "string"
+            ? type
+            : undefined,
+      description: typeof message === "string" ? message : undefined,
+    };
+  }
+  return {};
+}
+
+/**
+ * Turn a failed refresh into an actionable message.  Expired, revoked and
+ * already-used refresh tokens all need a fresh `codex login`.
+ */
+export function describeRefreshFailure(
+  result: Extract<TokenRefreshResult, { type: "failed" }>,
+): string {
+  const detail = result.description ? ` (${result.description})` : "";
+  switch (result.error) {
+    case "refresh_token_expired":
+      return `The refresh token has expired${detail}. Run \`codex login\` again and update the secret.`;
+    case "refresh_token_reused":
+      return `The refresh token was already used${detail}. Another run or machine probably refreshed it first; take the latest pair from \`oauth-refresh-token\` or run \`codex login\` again.`;
+    case "refresh_token_invalidated":
+    case "invalid_grant":
+      return `The refresh token was rejected as invalid, expired, revoked or already used${detail}. Run \`codex login\` again and update the secret.`;
+    case "invalid_client":
+    case "unauthorized_client":
+      return `The token endpoint rejected the client${detail}. Check that the tokens come from a Codex CLI login.`;
+  }
+  if (result.status == null) {
+    return `The token endpoint could not be reached${detail}.`;
+  }
+  return `The token endpoint returned ${result.status}${result.error ? ` ${result.error}` : ""}${detail}.`;
+}
+
+/** Where and how to fetch access tokens from a token relay. */
+export interface RelayCredentials {
+  url: string;
+  /** API key for the token relay. */
+  key?: string;
+  /** Send a GitHub Actions OIDC ID token for this audience instead of `key`. */
+  audience?: string;
+}
+
+/**
+ * Fetch an access token from the token relay.  The token must carry a
+ * ChatGPT account ID and `expires_at` (ms since epoch) must lie in the
+ * future.  Transient failures are retried according to `retryPolicy`.
+ */
+export async function requestRelayToken(
+  relay: RelayCredentials,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<{ accessToken: string; expires: number; accountId: string }> {
+  // ID tokens are short-lived, so request a new one for every fetch.
+  const credential = relay.audience
+    ? await getIDToken(relay.audience)
+    : relay.key;
+  if (!credential) {
+    throw new Error("No relay key or OIDC audience configured");
+  }
+
+  let res: Response;
+  try {
+    res = await fetchWithRetry(
+      relay.url,
+      { headers: { Authorization: `Bearer ${credential}` } },
+      retryPolicy,
+    );
+  } catch (err) {
+    throw new Error(`Could not reach token relay at ${relay.url}: ${err}`);
+  }
 
   if (!res.ok) {
     const text = await res.text().catch(() => "");
-    console.error("[oauth-proxy] Relay fetch failed:", res.status, text);
-    throw new Error("Failed to fetch token from relay");
+    throw new Error(
+      `Token relay returned ${res.status}${res.status === 401 ? " (check the relay key or OIDC rules)" : ""}: ${text.slice(0, 200)}`,
+    );
+  }
+
+  let json: { access_token?: unknown; expires_at?: unknown };
+  try {
+    json = (await res.json()) as typeof json;
+  } catch {
+    throw new Error("Token relay response is not valid JSON");
   }
 
-  const json = (await res.json()) as {
-    access_token?: string;
-    expires_at?: number;
+  if (typeof json.access_token !== "string" || !json.access_token) {
+    throw new Error("Token relay response is missing access_token");
+  }
+  if (typeof json.expires_at !== "number") {
+    throw new Error("Token relay response is missing a numeric expires_at");
+  }
+  if (json.expires_at <= Date.now()) {
+    throw new Error(
+      `Token relay returned a token that expired at ${new Date(json.expires_at).toISOString()} (expires_at must be in milliseconds since the epoch)`,
+    );
+  }
+
+  return {
+    accessToken: json.access_token,
+    expires: json.expires_at,
+    accountId: getAccountId(json.access_token),
   };
+}
 
-  if (!json.access_token || typeof json.expires_at !== "number") {
-    throw new Error("Relay response missing access_token or expires_at");
+/**
+ * Fetch a fresh access token from the token relay service.
+ */
+async function fetchFromRelay(state: TokenState): Promise<TokenState> {
+  console.log("[oauth-proxy] Fetching fresh token from relay...");
+  let token;
+  try {
+    token = await requestRelayToken({
+      url: state.relayUrl!,
+      key: state.relayKey,
+      audience: state.relayAudience,
+    });
+  } catch (err) {
+    console.error("[oauth-proxy] Relay fetch failed:", err);
+    throw new Error(
+      `Failed to fetch token from relay: ${err instanceof Error ? err.message : err}`,
+    );
   }
 
-  state.accessToken = json.access_token;
-  state.expires = json.expires_at;
-  state.accountId = getAccountId(json.access_token);
+  state.accessToken = token.accessToken;
+  state.expires = token.expires;
+  state.accountId = token.accountId;
 
   console.log("[oauth-proxy] Token fetched from relay successfully");
   return state;
 }
 
+/** Refreshes in progress, so concurrent callers share a single one. */
+const inFlightRefreshes = new WeakMap<TokenState, Promise<TokenState>>();
+
 /**
- * Ensure the TokenState has a valid (non-expired) access token, refreshing if
- * necessary.  Mutates and returns the same object.
+ * Refresh the access token now, regardless of its expiry.  Mutates and
+ * resolves to the same object.
+ *
+ * Refresh tokens are single-use, so concurrent calls for the same state get
+ * the promise of the refresh already in progress instead of starting another
+ * one that would be rejected.
  */
-export async function ensureValidToken(
-  state: TokenState,
-): Promise<TokenState> {
-  if (!shouldRefreshToken(state)) {
-    return state;
-  }
-
-  // Relay mode: fetch from relay instead of refreshing directly
-  if (state.relayUrl) {
-    return fetchFromRelay(state);
+export function refreshTokenState(state: TokenState): Promise<TokenState> {
+  let refresh = inFlightRefreshes.get(state);
+  if (!refresh) {
+    refresh = (
+      state.relayUrl ? fetchFromRelay(state) : refreshDirectly(state)
+    ).finally(() => inFlightRefreshes.delete(state));
+    inFlightRefreshes.set(state, refresh);
   }
+  return refresh;
+}
 
+async function refreshDirectly(state: TokenState): Promise<TokenState> {
   console.log("[oauth-proxy] Access token expired or expiring, refreshing...");
-  const result = await refreshAccessToken(state.refreshToken);
+  const result = await refreshAccessToken(state.refreshToken, state.tokenUrl);
   if (result.type === "failed") {
-    throw new Error("Failed to refresh OAuth access token");
+    throw new Error(
+      `Failed to refresh OAuth access token: ${describeRefreshFailure(result)}`,
+    );
   }
 
   state.accessToken = result.access;
@@ -210,3 +417,16 @@ export async function ensureValidToken(
   console.log("[oauth-proxy] Token refreshed successfully");
   return state;
 }
+
+/**
+ * Ensure the TokenState has a valid (non-expired) access token, refreshing if
+ * necessary.  Mutates and returns the same object.
+ */
+export async function ensureValidToken(
+  state: TokenState,
+): Promise<TokenState> {
+  if (!shouldRefreshToken(state)) {
+    return state;
+  }
+  return refreshTokenState(state);
+}
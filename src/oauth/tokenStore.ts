@@ -0,0 +1,108 @@
+/**
+ * Persistence of OAuth token state across proxy restarts and workflow runs.
+ *
+ * The auth server rotates refresh tokens on every refresh, so the token pair
+ * the proxy ends up holding is the only one that will still work next time.
+ * We write it to an owner-only file that a later step can read back and use
+ * to update the repository secret.
+ */
+
+import { randomBytes } from "node:crypto";
+import { chmod, readFile, rename, writeFile } from "node:fs/promises";
+
+import type { TokenState } from "./tokenManager";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PersistedTokenPair {
+  access_token: string;
+  refresh_token: string;
+  /** Absolute timestamp (ms) when the access token expires. */
+  expires_at: number;
+}
+
+/**
+ * The top-level pair is the first account's.  With an account pool, every
+ * account (including the first) is also listed under `accounts`.
+ */
+export interface PersistedTokenState extends PersistedTokenPair {
+  /** Absolute timestamp (ms) when this file was written. */
+  updated_at: number;
+  accounts?: PersistedTokenPair[];
+}
+
+// ---------------------------------------------------------------------------
+// Read / write
+// ---------------------------------------------------------------------------
+
+/**
+ * Atomically write the token pairs held by `states` (one per account) to
+ * `file` with mode 0600.
+ */
+export async function writeTokenStateFile(
+  file: string,
+  states: TokenState[],
+): Promise<void> {
+  const pairs = states.map(
+    (state): PersistedTokenPair => ({
+      access_token: state.accessToken,
+      refresh_token: state.refreshToken,
+      expires_at: state.expires,
+    }),
+  );
+  const persisted: PersistedTokenState = {
+    ...pairs[0],
+    updated_at: Date.now(),
+    ...(pairs.length > 1 ? { accounts: pairs } : {}),
+  };
+
+  // Write to a sibling temp file first so a reader never sees a partial write.
+  // The name is unique per call so concurrent writes never share one.
+  const tempFile = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(tempFile, JSON.stringify(persisted), { mode: 0o600 });
+  // `mode` is ignored when the file already exists, so enforce it explicitly.
+  await chmod(tempFile, 0o600);
+  await rename(tempFile, file);
+}
+
+/**
+ * Read a token state file written by `writeTokenStateFile`.  Returns `null` if
+ * the file does not exist (e.g. the proxy never started).
+ */
+export async function readTokenStateFile(
+  file: string,
+): Promise<PersistedTokenState | null> {
+  let contents: string;
+  try {
+    contents = await readFile(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+
+  const parsed = JSON.parse(contents) as Partial<PersistedTokenState>;
+  const pairs = [parsed, ...(parsed.accounts ?? [])];
+  if (!pairs.every(isTokenPair)) {
+    throw new Error(`Token state file ${file} is missing required fields`);
+  }
+
+  return {
+    access_token: parsed.access_token!,
+    refresh_token: parsed.refresh_token!,
+    expires_at: parsed.expires_at!,
+    updated_at: parsed.updated_at ?? 0,
+    ...(parsed.accounts ? { accounts: parsed.accounts } : {}),
+  };
+}
+
+function isTokenPair(value: Partial<PersistedTokenPair>): boolean {
+  return (
+    typeof value.access_token === "string" &&
+    typeof value.refresh_token === "string" &&
+    typeof value.expires_at === "number"
+  );
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+
+import { hashRequestBody, redactHeaders, redactSecrets } from "./transcript";
+
+describe("hashRequestBody", () => {
+  it("ignores key order", () => {
+    expect(hashRequestBody({ model: "m", input: [{ a: 1, b: 2 }] })).toBe(
+      hashRequestBody({ input: [{ b: 2, a: 1 }], model: "m" }),
+    );
+  });
+
+  it("ignores volatile top-level fields", () => {
+    const body = { model: "m", input: "hi" };
+    expect(
+      hashRequestBody({
+        ...body,
+        prompt_cache_key: "key",
+        previous_response_id: "resp_1",
+        session_id: "session",
+      }),
+    ).toBe(hashRequestBody(body));
+  });
+
+  it("treats undefined fields as absent", () => {
+    expect(hashRequestBody({ model: "m", tools: undefined })).toBe(
+      hashRequestBody({ model: "m" }),
+    );
+  });
+
+  it("distinguishes different requests", () => {
+    expect(hashRequestBody({ model: "m", input: "a" })).not.toBe(
+      hashRequestBody({ model: "m", input: "b" }),
+    );
+    // Only top-level fields are volatile.
+    expect(hashRequestBody({ input: [{ session_id: "1" }] })).not.toBe(
+      hashRequestBody({ input: [{ session_id: "2" }] }),
+    );
+  });
+});
+
+describe("redactHeaders", () => {
+  it("drops credential headers in any case", () => {
+    expect(
+      redactHeaders({
+        Authorization: "Bearer x",
+        "api-key": "k",
+        "ChatGPT-Account-Id": "acct",
+        "Content-Type": "application/json",
+      }),
+    ).toEqual({ "Content-Type": "application/json" });
+  });
+});
+
+describe("redactSecrets", () => {
+  it("replaces known secrets anywhere in nested values", () => {
+    expect(
+      redactSecrets(
+        { input: ["my secret-value here", { nested: "secret-value" }], n: 1 },
+        ["secret-value", ""],
+      ),
+    ).toEqual({
+      input: ["my [REDACTED] here", { nested: "[REDACTED]" }],
+      n: 1,
+    });
+  });
+
+  it("replaces token-like strings", () => {
+    const jwt = "eyJhbGciOiJub25lIn0.eyJzdWIiOiIxIn0.sig";
+    expect(
+      redactSecrets(
+        [
+          `token ${jwt}`,
+          "key sk-abcdefghijklmnopqrst",
+          "rt_abcdefghijklmnopqrst",
+          "Authorization: Bearer abc.def",
+        ],
+        [],
+      ),
+    ).toEqual([
+      "token [REDACTED]",
+      "key [REDACTED]",
+      "[REDACTED]",
+      "Authorization: [REDACTED]",
+    ]);
+  });
+
+  it("leaves ordinary text alone", () => {
+    expect(redactSecrets("task-runner sk-short", [])).toBe(
+      "task-runner sk-short",
+    );
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Redacted JSONL transcript of the traffic between the OAuth proxy and the
+ * ChatGPT backend.
+ *
+ * One line is appended per `/v1/responses` call, after the request has been
+ * transformed and the upstream response fully consumed.  Credentials are
+ * stripped before anything touches disk so the file can be uploaded as a
+ * workflow artifact.
+ */
+
+import { createHash } from "node:crypto";
+import { appendFile, writeFile } from "node:fs/promises";
+
+import type { UpstreamEvent } from "./responseHandler";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TranscriptEntry {
+  /** ISO-8601 time at which the request was sent upstream. */
+  timestamp: string;
+  request: {
+    url: string;
+    headers: Record<string, string>;
+    body: unknown;
+    /**
+     * `hashRequestBody` of the transformed client request, taken before
+     * redaction and before the proxy swapped in another model.
+     */
+    hash: string;
+  };
+  response: {
+    /** Upstream HTTP status, or `null` if the backend was unreachable. */
+    status: number | null;
+    /** Time until upstream response headers arrived. */
+    headers_ms: number | null;
+    /** Time until the response was fully forwarded downstream. */
+    duration_ms: number;
+    /** SSE events received from upstream, in order. */
+    events: UpstreamEvent[];
+    /** Raw body of a non-2xx response. */
+    error_body?: string;
+    /** Network error, if the backend could not be reached. */
+    error?: string;
+  };
+  /**
+   * Set on attempts the proxy retried itself (e.g. on another account) rather
+   * than answering the client with.  Replay skips them.
+   */
+  internal?: boolean;
+}
+
+export interface TranscriptRecorder {
+  readonly file: string;
+  /** Redact and append an entry.  Never throws. */
+  record(entry: TranscriptEntry): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Request hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * Top-level request fields that differ from run to run for the same
+ * conversation (cache keys, session and conversation IDs, references to
+ * earlier responses), so they are left out of the hash.
+ */
+const VOLATILE_REQUEST_FIELDS: readonly string[] = [
+  "prompt_cache_key",
+  "previous_response_id",
+  "conversation",
+  "conversation_id",
+  "session_id",
+];
+
+/**
+ * SHA-256 of the request body without `VOLATILE_REQUEST_FIELDS`, serialized
+ * with sorted object keys, so the same request hashes identically across
+ * runs and regardless of key order.
+ */
+export function hashRequestBody(body: unknown): string {
+  let normalized = body;
+  if (body != null && typeof body === "object" && !Array.isArray(body)) {
+    normalized = Object.fromEntries(
+      Object.entries(body).filter(
+        ([key]) => !VOLATILE_REQUEST_FIELDS.includes(key),
+      ),
+    );
+  }
+  return createHash("sha256").update(stableStringify(normalized)).digest("hex");
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value != null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+/** Headers that identify the account and are dropped entirely. */
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "api-key",
+  "chatgpt-account-id",
+]);
+
+const REDACTED = "[REDACTED]";
+
+/** Strings that look like credentials regardless of where they appear. */
+const TOKEN_PATTERNS: RegExp[] = [
+  // JWTs (OAuth access tokens, ID tokens)
+  /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  // OpenAI API keys
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  // OAuth refresh tokens
+  /\brt_[A-Za-z0-9_.-]{16,}/g,
+  // Anything presented as a bearer credential
+  /\bBearer\s+[A-Za-z0-9._~+/=-]+/gi,
+];
+
+export function redactHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !SENSITIVE_HEADERS.has(name.toLowerCase()),
+    ),
+  );
+}
+
+/**
+ * Deep-copy `value`, replacing every token-like substring and every exact
+ * occurrence of a `knownSecrets` entry with `[REDACTED]`.
+ */
+export function redactSecrets(value: unknown, knownSecrets: string[]): unknown {
+  if (typeof value === "string") {
+    let redacted = value;
+    for (const secret of knownSecrets) {
+      if (secret) {
+        redacted = redacted.split(secret).join(REDACTED);
+      }
+    }
+    for (const pattern of TOKEN_PATTERNS) {
+      redacted = redacted.replace(pattern, REDACTED);
+    }
+    return redacted;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, knownSecrets));
+  }
+  if (value != null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactSecrets(item, knownSecrets),
+      ]),
+    );
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+/**
+ * Create (or truncate) `file` with mode 0600 and return a recorder that
+ * appends redacted entries to it.  `knownSecrets` is consulted on every write
+ * so rotated tokens are redacted too.
+ */
+export async function createTranscriptRecorder(
+  file: string,
+  knownSecrets: () => string[],
+): Promise<TranscriptRecorder> {
+  await writeFile(file, "", { mode: 0o600 });
+
+  // Serialize appends so concurrent requests never interleave lines.
+  let pending: Promise<void> = Promise.resolve();
+
+  return {
+    file,
+    record(entry) {
+      const secrets = knownSecrets();
+      const redacted: TranscriptEntry = {
+        ...entry,
+        request: {
+          url: entry.request.url,
+          headers: redactHeaders(entry.request.headers),
+          body: redactSecrets(entry.request.body, secrets),
+          hash: entry.request.hash,
+        },
+        response: redactSecrets(
+          entry.response,
+          secrets,
+        ) as TranscriptEntry["response"],
+      };
+      const line = `${JSON.stringify(redacted)}\n`;
+
+      pending = pending
+        .then(() => appendFile(file, line))
+        .catch((err) => {
+          console.error("[oauth-proxy] Failed to write transcript:", err);
+        });
+      return pending;
+    },
+  };
+}
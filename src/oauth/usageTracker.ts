@@ -0,0 +1,162 @@
+/**
+ * Token usage accounting for the OAuth proxy.
+ *
+ * Sums the `usage` blocks of `response.completed` events per model over the
+ * lifetime of the proxy and persists the totals to an owner-only file so a
+ * later step can publish them as action outputs.
+ */
+
+import { randomBytes } from "node:crypto";
+import { chmod, readFile, rename, writeFile } from "node:fs/promises";
+
+import type { BudgetStatus } from "./budget";
+import type { UpstreamEvent } from "./responseHandler";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TokenUsage {
+  requests: number;
+  input_tokens: number;
+  cached_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  total_tokens: number;
+}
+
+export interface UsageReport {
+  totals: TokenUsage;
+  models: Record<string, TokenUsage>;
+  /** Absolute timestamp (ms) of the last update. */
+  updated_at: number;
+  /** Model that served the most recent completed response. */
+  model_used?: string;
+  /** Requests that were served by a fallback model instead. */
+  model_fallbacks?: ModelFallback[];
+  /** Budget state, when the proxy enforces a per-run budget. */
+  budget?: BudgetStatus;
+}
+
+export interface ModelFallback {
+  requested: string;
+  used: string;
+}
+
+/** Shape of the `usage` block on a completed Responses API response. */
+interface ResponseUsage {
+  input_tokens?: number;
+  input_tokens_details?: { cached_tokens?: number };
+  output_tokens?: number;
+  output_tokens_details?: { reasoning_tokens?: number };
+  total_tokens?: number;
+}
+
+export interface UsageTracker {
+  /**
+   * Inspect an upstream SSE event and, if it carries final usage, add it to
+   * the totals.  Returns true when the totals changed.
+   */
+  recordEvent(event: UpstreamEvent, fallbackModel: string): boolean;
+  report(): UsageReport;
+}
+
+// ---------------------------------------------------------------------------
+// Tracker
+// ---------------------------------------------------------------------------
+
+export function createUsageTracker(): UsageTracker {
+  const totals = emptyUsage();
+  const models: Record<string, TokenUsage> = {};
+  let modelUsed: string | undefined;
+  let updatedAt = Date.now();
+
+  return {
+    recordEvent(event, fallbackModel) {
+      if (
+        event.type !== "response.completed" &&
+        event.type !== "response.done"
+      ) {
+        return false;
+      }
+
+      const response = event.response as
+        | { model?: string; usage?: ResponseUsage }
+        | undefined;
+      if (!response?.usage) {
+        return false;
+      }
+
+      const model = response.model || fallbackModel;
+      models[model] ??= emptyUsage();
+      addUsage(models[model], response.usage);
+      addUsage(totals, response.usage);
+      modelUsed = model;
+      updatedAt = Date.now();
+      return true;
+    },
+
+    report() {
+      return {
+        totals: { ...totals },
+        models: Object.fromEntries(
+          Object.entries(models).map(([model, usage]) => [model, { ...usage }]),
+        ),
+        updated_at: updatedAt,
+        model_used: modelUsed,
+      };
+    },
+  };
+}
+
+function emptyUsage(): TokenUsage {
+  return {
+    requests: 0,
+    input_tokens: 0,
+    cached_tokens: 0,
+    output_tokens: 0,
+    reasoning_tokens: 0,
+    total_tokens: 0,
+  };
+}
+
+function addUsage(target: TokenUsage, usage: ResponseUsage): void {
+  const input = usage.input_tokens ?? 0;
+  const output = usage.output_tokens ?? 0;
+
+  target.requests += 1;
+  target.input_tokens += input;
+  target.cached_tokens += usage.input_tokens_details?.cached_tokens ?? 0;
+  target.output_tokens += output;
+  target.reasoning_tokens += usage.output_tokens_details?.reasoning_tokens ?? 0;
+  target.total_tokens += usage.total_tokens ?? input + output;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * Derive the usage file path from the server info file path, e.g.
+ * `~/.codex/1234.json` -> `~/.codex/1234.usage.json`.
+ */
+export function usageFileFor(serverInfoFile: string): string {
+  return serverInfoFile.replace(/(\.json)?$/, ".usage.json");
+}
+
+export async function writeUsageFile(
+  file: string,
+  report: UsageReport,
+): Promise<void> {
+  // Write to a sibling temp file first so a reader never sees a partial
+  // write.  The suffix keeps concurrent writers off each other's temp file.
+  const tempFile = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(tempFile, JSON.stringify(report), { mode: 0o600 });
+  await chmod(tempFile, 0o600);
+  await rename(tempFile, file);
+}
+
+export async function readUsageFile(file: string): Promise<UsageReport> {
+  const contents = await readFile(file, "utf-8");
+  return JSON.parse(contents) as UsageReport;
+}
@@ -0,0 +1,125 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createFakeBackend, type FakeReply } from "./fakeBackend";
+import { createOAuthProxy, type OAuthProxyOptions } from "./oauthProxy";
+
+let dir: string;
+const stops: Array<() => Promise<void>> = [];
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "oauth-proxy-test-"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  for (const stop of stops.splice(0).reverse()) {
+    await stop();
+  }
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function readJson(file: string): Promise<any> {
+  return JSON.parse(await readFile(file, "utf-8"));
+}
+
+/**
+ * Start the fake backend with `replies` and a proxy in front of it, and
+ * return a client for the proxy.
+ */
+async function startProxy(
+  replies: FakeReply[],
+  options: Partial<OAuthProxyOptions> = {},
+) {
+  const backendInfoFile = path.join(dir, "backend.json");
+  const backend = createFakeBackend({
+    serverInfoFile: backendInfoFile,
+    replies,
+  });
+  await backend.start();
+  stops.push(() => backend.stop());
+  const seed = await readJson(backendInfoFile);
+
+  const serverInfoFile = path.join(dir, "proxy.json");
+  const clientSecretFile = path.join(dir, "proxy.secret");
+  const proxy = createOAuthProxy({
+    serverInfoFile,
+    clientSecretFile,
+    accessToken: seed.access_token,
+    refreshToken: seed.refresh_token,
+    backendUrl: seed.responses_url,
+    tokenUrl: seed.token_url,
+    ...options,
+  });
+  await proxy.start();
+  stops.push(() => proxy.stop());
+
+  const { port } = await readJson(serverInfoFile);
+  const secret = (await readFile(clientSecretFile, "utf-8")).trim();
+  return (route: string, body: unknown) =>
+    fetch(`http://127.0.0.1:${port}${route}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secret}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+}
+
+const request = { model: "gpt-5.1", input: "Hi", stream: false };
+
+describe("createOAuthProxy", () => {
+  it("only counts validated requests against the budget", async () => {
+    const post = await startProxy([{ type: "text", text: "Hello" }], {
+      budget: { maxRequests: 1 },
+    });
+
+    const invalid = await post("/v1/chat/completions", { model: "gpt-5.1" });
+    expect(invalid.status).toBe(400);
+
+    const admitted = await post("/v1/responses", request);
+    expect(admitted.status).toBe(200);
+    await admitted.text();
+
+    const refused = await post("/v1/responses", request);
+    expect(refused.status).toBe(403);
+    expect((await refused.json()).error.code).toBe("budget_exceeded");
+  });
+
+  it("fails over to the next account on a usage limit", async () => {
+    const extra = createFakeBackend({
+      serverInfoFile: path.join(dir, "extra.json"),
+      replies: [{ type: "text", text: "unused" }],
+    });
+    await extra.start();
+    stops.push(() => extra.stop());
+    const extraSeed = await readJson(path.join(dir, "extra.json"));
+
+    const post = await startProxy(
+      [
+        { type: "usage_limit", resets_in_seconds: 60 },
+        { type: "text", text: "From the second account" },
+      ],
+      {
+        extraAccounts: [
+          {
+            accessToken: extraSeed.access_token,
+            refreshToken: extraSeed.refresh_token,
+          },
+        ],
+      },
+    );
+
+    const res = await post("/v1/responses", request);
+    expect(res.status).toBe(200);
+    expect(JSON.stringify(await res.json())).toContain(
+      "From the second account",
+    );
+  });
+});
@@ -2,32 +2,117 @@
  * OAuth-aware HTTP proxy server.
  *
  * Sits between Codex CLI and the ChatGPT backend API, handling:
- * - OAuth token management (refresh on expiry)
+ * - OAuth token management (single-flight refresh on expiry and in the
+ *   background ahead of it, persistence of rotated tokens)
+ * - A pool of accounts with failover when one hits its usage limit
  * - Request transformation (model normalization, stateless flags, etc.)
  * - Response adaptation (SSE → JSON for non-streaming requests)
+ * - `/v1/chat/completions`, translated to and from the Responses API
+ * - Retries with backoff for transient upstream failures
+ * - A model fallback chain for models the backend reports as unavailable
+ * - Token usage accounting per model, with an optional per-run budget
+ * - Optional redacted JSONL transcript of upstream traffic
+ * - Replay mode: answers from a recorded transcript instead of the backend
+ * - API-key mode: forwards to the OpenAI or Azure OpenAI Responses API
+ * - Local provider mode: forwards unchanged to a self-hosted
+ *   OpenAI-compatible server
+ * - Optional local response store for `previous_response_id`, item
+ *   references and `GET /v1/responses/{id}`
+ * - `GET /healthz` (readiness) and `GET /metrics` (Prometheus text format)
+ * - Authentication of local clients with a random per-run secret
  *
  * Usage:
  *   const proxy = createOAuthProxy({ serverInfoFile, accessToken, refreshToken });
  *   await proxy.start();   // binds to a dynamic port, writes server info
  *   // ...
- *   proxy.stop();           // graceful shutdown
+ *   await proxy.stop();     // graceful shutdown
  */
 
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
 import { writeFile } from "node:fs/promises";
 
 import {
+  getPlanType,
   loadTokens,
-  ensureValidToken,
+  proactiveRefreshDelay,
+  refreshTokenState,
+  shouldRefreshToken,
   type TokenState,
 } from "./oauth/tokenManager";
+import { writeTokenStateFile } from "./oauth/tokenStore";
+import {
+  forwardedHeaders,
+  resolveApiKeyUpstream,
+  type ApiKeyUpstream,
+} from "./oauth/apiKey";
+import {
+  chatUsageEvent,
+  resolveLocalProvider,
+  type LocalProvider,
+} from "./oauth/localProvider";
+import {
+  createModelResolver,
+  isModelEntitled,
+  PLAN_ENTITLEMENTS,
+  type ModelMapConfig,
+  type ModelResolver,
+} from "./oauth/modelMap";
+import {
+  chatRequestToResponses,
+  handleChatCompletionResponse,
+  type ChatCompletionOptions,
+  type ChatCompletionRequest,
+} from "./oauth/chatCompletions";
 import {
   getBackendUrl,
   transformRequestBody,
   createHeaders,
   type RequestBody,
 } from "./oauth/requestTransformer";
-import { handleUpstreamResponse } from "./oauth/responseHandler";
+import {
+  handleUpstreamResponse,
+  isModelUnavailableBody,
+  isUsageLimitBody,
+  passThroughResponse,
+  type ResponseObserver,
+  type UpstreamEvent,
+} from "./oauth/responseHandler";
+import { createResponseStore, type ResponseStore } from "./oauth/responseStore";
+import {
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+  type RetryPolicy,
+} from "./oauth/retry";
+import {
+  clientSecretFileFor,
+  generateClientSecret,
+  isAuthorizedClient,
+  writeClientSecretFile,
+} from "./oauth/clientAuth";
+import { createProxyMetrics, type ProxyMetrics } from "./oauth/metrics";
+import { createBudgetGuard, type UsageBudget } from "./oauth/budget";
+import {
+  createAccountPool,
+  type AccountPool,
+  type PoolAccount,
+} from "./oauth/accountPool";
+import {
+  loadReplaySource,
+  type ReplayMatch,
+  type ReplaySource,
+} from "./oauth/replay";
+import {
+  createTranscriptRecorder,
+  hashRequestBody,
+  type TranscriptEntry,
+  type TranscriptRecorder,
+} from "./oauth/transcript";
+import {
+  createUsageTracker,
+  usageFileFor,
+  type ModelFallback,
+  writeUsageFile,
+} from "./oauth/usageTracker";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -36,43 +121,396 @@ import { handleUpstreamResponse } from "./oauth/responseHandler";
 export interface OAuthProxyOptions {
   /** Path to the JSON file where `{ port, pid }` will be written. */
   serverInfoFile: string;
-  /** Initial OAuth access token. */
+  /** Initial OAuth access token (empty string in API-key mode). */
   accessToken: string;
   /** OAuth refresh token (empty string in relay mode). */
   refreshToken: string;
+  /**
+   * Further accounts to fail over to when an account hits its usage limit.
+   * Not supported in relay mode.
+   */
+  extraAccounts?: Array<{ accessToken: string; refreshToken: string }>;
   /** Token relay URL for fetching fresh tokens (relay mode). */
   relayUrl?: string;
   /** API key for the token relay. */
   relayKey?: string;
+  /**
+   * Authenticate to the token relay with a GitHub Actions OIDC ID token for
+   * this audience instead of `relayKey`.
+   */
+  relayAudience?: string;
+  /**
+   * Path to an owner-only JSON file where the latest token pair is written
+   * whenever the refresh token rotates and again on shutdown.
+   */
+  tokenStateFile?: string;
+  /**
+   * Path to the JSON file where per-model token usage totals are written.
+   * Defaults to `<serverInfoFile>.usage.json`.
+   */
+  usageFile?: string;
+  /** Retry policy for transient upstream failures. */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Path to a JSONL file where every upstream exchange is recorded, with
+   * credentials redacted.
+   */
+  transcriptFile?: string;
+  /**
+   * Serve `/v1/responses` from a recorded transcript instead of the ChatGPT
+   * backend.  No OAuth tokens are needed in this mode.
+   */
+  replay?: { file: string; match: ReplayMatch };
+  /**
+   * Directory where completed responses are stored, so requests can use
+   * `previous_response_id` and `item_reference` and clients can fetch them
+   * with `GET /v1/responses/{id}`.  Disabled when unset.
+   */
+  responseStoreDir?: string;
+  /**
+   * Forward requests to the OpenAI or Azure OpenAI Responses API with this
+   * API key instead of using OAuth tokens and the ChatGPT backend.
+   */
+  apiKey?: ApiKeyUpstream;
+  /**
+   * Forward requests unchanged to a self-hosted OpenAI-compatible server
+   * instead of using OAuth tokens and the ChatGPT backend.
+   */
+  local?: LocalProvider;
+  /** Override for the ChatGPT backend responses URL. */
+  backendUrl?: string;
+  /** Override for the OAuth token endpoint used to refresh tokens. */
+  tokenUrl?: string;
+  /**
+   * Path to an owner-only file where the per-run client secret is written.
+   * Defaults to `<serverInfoFile>.secret`.
+   */
+  clientSecretFile?: string;
+  /**
+   * Token and request budget for the run.  Once spent, `/v1/responses` calls
+   * are refused with `403 budget_exceeded`.
+   */
+  budget?: UsageBudget;
+  /**
+   * What to do when the requested model is not included in the account's
+   * ChatGPT plan (see `PLAN_ENTITLEMENTS`): refuse the request with `400
+   * model_not_entitled`, switch to `fallbackModel`, or `off` (the default).
+   */
+  planGating?: PlanGating;
+  /** Custom model mappings merged over the built-in model map. */
+  modelMap?: ModelMapConfig;
+  /**
+   * Models to retry with, in order, when the backend reports the requested
+   * model as not found or not supported.
+   */
+  modelFallbacks?: string[];
+}
+
+export interface PlanGating {
+  mode: "off" | "reject" | "downgrade";
+  /** Model used instead in `downgrade` mode. */
+  fallbackModel?: string;
 }
 
 export interface OAuthProxy {
   start(): Promise<void>;
-  stop(): void;
+  stop(): Promise<void>;
 }
 
+/** Delay before retrying a failed background token refresh. */
+const PROACTIVE_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Longest delay `setTimeout` supports; larger ones overflow and fire almost
+ * immediately.
+ */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
 // ---------------------------------------------------------------------------
 // Factory
 // ---------------------------------------------------------------------------
 
 export function createOAuthProxy(options: OAuthProxyOptions): OAuthProxy {
-  const { serverInfoFile, accessToken, refreshToken, relayUrl, relayKey } = options;
+  const {
+    serverInfoFile,
+    accessToken,
+    refreshToken,
+    relayUrl,
+    relayKey,
+    relayAudience,
+    tokenStateFile,
+    replay,
+    apiKey,
+    local,
+  } = options;
+  const usageFile = options.usageFile ?? usageFileFor(serverInfoFile);
+  const clientSecretFile =
+    options.clientSecretFile ?? clientSecretFileFor(serverInfoFile);
+  const clientSecret = generateClientSecret();
 
-  let tokenState: TokenState;
-  try {
-    tokenState = loadTokens(accessToken, refreshToken);
-    if (relayUrl) {
-      tokenState.relayUrl = relayUrl;
-      tokenState.relayKey = relayKey;
-    }
-  } catch (err) {
+  if (relayUrl && options.extraAccounts?.length) {
+    throw new Error("Multiple OAuth accounts are not supported in relay mode");
+  }
+
+  if (apiKey && (replay || relayUrl)) {
+    throw new Error(
+      "API-key mode cannot be combined with replay or relay mode",
+    );
+  }
+  if (local && (apiKey || replay || relayUrl)) {
     throw new Error(
-      `Failed to initialise OAuth tokens: ${err instanceof Error ? err.message : err}`,
+      "Local provider mode cannot be combined with API-key, replay or relay mode",
     );
   }
+  if ((apiKey || local) && options.responseStoreDir) {
+    // The upstream keeps its own state; expanding it here would break it.
+    throw new Error(
+      "The response store is not used in API-key or local provider mode",
+    );
+  }
+  const apiKeyUpstream = apiKey ? resolveApiKeyUpstream(apiKey) : null;
+  const localUpstream = local ? resolveLocalProvider(local) : null;
+
+  // Replay, API-key and local provider modes need no OAuth tokens.
+  let pool: AccountPool | null = null;
+  if (!replay && !apiKey && !local) {
+    const pairs = [
+      { accessToken, refreshToken },
+      ...(options.extraAccounts ?? []),
+    ];
+    pool = createAccountPool(
+      pairs.map((pair, index) => {
+        try {
+          const state = loadTokens(pair.accessToken, pair.refreshToken);
+          state.tokenUrl = options.tokenUrl;
+          if (relayUrl) {
+            state.relayUrl = relayUrl;
+            state.relayKey = relayKey;
+            state.relayAudience = relayAudience;
+          }
+          return state;
+        } catch (err) {
+          throw new Error(
+            `Failed to initialise OAuth tokens for account #${index + 1}: ${err instanceof Error ? err.message : err}`,
+          );
+        }
+      }),
+    );
+    if (pool.accounts.length > 1) {
+      console.log(
+        `[oauth-proxy] Using a pool of ${pool.accounts.length} accounts`,
+      );
+    }
+  }
+  const tokenStates = (): TokenState[] =>
+    pool ? pool.accounts.map((account) => account.state) : [];
+
+  // Relay mode has no refresh token of its own; the relay handles rotation.
+  const shouldPersist = tokenStateFile != null && !relayUrl;
+  let persistedRefreshTokens: string | null = null;
+  // Writes run one at a time, so an older state never replaces a newer one.
+  let persistQueue: Promise<void> = Promise.resolve();
+
+  const writeTokenState = async (): Promise<void> => {
+    const refreshTokens = tokenStates()
+      .map((state) => state.refreshToken)
+      .join("\n");
+    if (
+      !shouldPersist ||
+      pool == null ||
+      refreshTokens === persistedRefreshTokens
+    ) {
+      return;
+    }
+    try {
+      await writeTokenStateFile(tokenStateFile, tokenStates());
+      persistedRefreshTokens = refreshTokens;
+      console.log(`[oauth-proxy] Token state written to ${tokenStateFile}`);
+    } catch (err) {
+      console.error("[oauth-proxy] Failed to write token state:", err);
+    }
+  };
+
+  const persistTokenState = (): Promise<void> => {
+    persistQueue = persistQueue.then(writeTokenState);
+    return persistQueue;
+  };
+
+  const startedAt = Date.now();
+  const metrics = createProxyMetrics(startedAt);
+
+  // Concurrent callers share one refresh promise; count each refresh once.
+  const observedRefreshes = new WeakSet<Promise<TokenState>>();
+
+  const refreshTokens = async (account: PoolAccount): Promise<TokenState> => {
+    const refresh = refreshTokenState(account.state);
+    if (!observedRefreshes.has(refresh)) {
+      observedRefreshes.add(refresh);
+      refresh.then(
+        () => {
+          metrics.recordTokenRefresh("success");
+          account.lastRefreshError = null;
+        },
+        (err) => {
+          metrics.recordTokenRefresh("failure");
+          account.lastRefreshError =
+            err instanceof Error ? err.message : String(err);
+        },
+      );
+    }
+    await refresh;
+    await persistTokenState();
+    return account.state;
+  };
+
+  const ensureToken = async (account: PoolAccount): Promise<TokenState> =>
+    shouldRefreshToken(account.state) ? refreshTokens(account) : account.state;
+
+  // Refresh in the background ahead of expiry so requests never wait on it.
+  const refreshTimers = new Map<PoolAccount, NodeJS.Timeout>();
+  let stopped = false;
+
+  const scheduleProactiveRefresh = (account: PoolAccount, delayMs?: number) => {
+    if (stopped) return;
+    const delay = delayMs ?? proactiveRefreshDelay(account.state);
+    const dueAt = Date.now() + delay;
+    const timer = setTimeout(
+      () => {
+        // Tokens valid for more than ~24.8 days need more than one timer.
+        if (Date.now() < dueAt) {
+          scheduleProactiveRefresh(account, dueAt - Date.now());
+          return;
+        }
+        refreshTokens(account).then(
+          () => scheduleProactiveRefresh(account),
+          (err) => {
+            console.error(
+              `[oauth-proxy] Background token refresh for ${account.label} failed; retrying in ${PROACTIVE_RETRY_DELAY_MS}ms:`,
+              err,
+            );
+            scheduleProactiveRefresh(account, PROACTIVE_RETRY_DELAY_MS);
+          },
+        );
+      },
+      Math.min(delay, MAX_TIMER_DELAY_MS),
+    );
+    // Never keep the process alive just for this.
+    timer.unref();
+    refreshTimers.set(account, timer);
+  };
+
+  const health = (): HealthReport => {
+    const now = Date.now();
+    const describe = (account: PoolAccount): TokenHealth => ({
+      expires_at: new Date(account.state.expires).toISOString(),
+      expires_in_seconds: Math.round((account.state.expires - now) / 1000),
+      has_account_id: account.state.accountId.length > 0,
+      last_refresh_error: account.lastRefreshError,
+      cooldown_until:
+        account.cooldownUntil > now
+          ? new Date(account.cooldownUntil).toISOString()
+          : null,
+    });
+    return {
+      // Healthy as long as one account can still be used.
+      status:
+        pool == null ||
+        pool.accounts.some((account) => account.lastRefreshError == null)
+          ? "ok"
+          : "unhealthy",
+      mode: replay
+        ? "replay"
+        : apiKey
+          ? "api-key"
+          : local
+            ? "local"
+            : relayUrl
+              ? "relay"
+              : "oauth",
+      uptime_seconds: Math.round((now - startedAt) / 1000),
+      token: pool == null ? null : describe(pool.current()),
+      accounts: pool == null ? [] : pool.accounts.map(describe),
+    };
+  };
+
+  const usage = createUsageTracker();
+  const budget = options.budget ? createBudgetGuard(options.budget) : null;
+
+  const models = createModelResolver(options.modelMap);
+  const planGating: PlanGating = {
+    mode: options.planGating?.mode ?? "off",
+    fallbackModel: options.planGating?.fallbackModel
+      ? models.normalize(options.planGating.fallbackModel)
+      : undefined,
+  };
+  if (planGating.mode === "downgrade" && !planGating.fallbackModel) {
+    throw new Error("Plan gating in downgrade mode needs a fallback model");
+  }
+  const modelFallbacks = (options.modelFallbacks ?? []).map((model) =>
+    models.normalize(model),
+  );
+  const usedFallbacks: ModelFallback[] = [];
+  let usageWrite: Promise<void> = Promise.resolve();
+
+  const writeUsage = (): Promise<void> => {
+    const report = {
+      ...usage.report(),
+      model_fallbacks: usedFallbacks.length > 0 ? usedFallbacks : undefined,
+      budget: budget?.status(),
+    };
+    usageWrite = usageWrite
+      .then(() => writeUsageFile(usageFile, report))
+      .catch((err) => {
+        console.error("[oauth-proxy] Failed to write usage file:", err);
+      });
+    return usageWrite;
+  };
+
+  const context: ProxyContext = {
+    accounts: pool,
+    ensureToken,
+    clientSecret,
+    health,
+    metrics,
+    backendUrl: getBackendUrl(options.backendUrl),
+    retryPolicy: options.retryPolicy ?? DEFAULT_RETRY_POLICY,
+    models,
+    planGating,
+    modelFallbacks,
+    transcript: null,
+    replay: null,
+    responses: null,
+    apiKey: apiKeyUpstream,
+    local: localUpstream,
+    admitRequest() {
+      if (!budget) return null;
+      const alreadyExceeded = budget.status().exceeded != null;
+      const refusal = budget.admit(usage.report().totals);
+      if (refusal != null && !alreadyExceeded) {
+        console.error(`[oauth-proxy] ${refusal}; refusing further requests`);
+        void writeUsage();
+      }
+      return refusal;
+    },
+    onUpstreamEvent(event, model) {
+      if (usage.recordEvent(event, model)) {
+        void writeUsage();
+      }
+    },
+    onModelFallback(requested, used) {
+      console.warn(
+        `[oauth-proxy] Served a ${requested} request with fallback model ${used}`,
+      );
+      usedFallbacks.push({ requested, used });
+      void writeUsage();
+    },
+  };
 
   const server = createServer((req, res) => {
-    handleRequest(req, res, tokenState).catch((err) => {
+    if (!isMonitoringRequest(req)) {
+      res.on("finish", () => metrics.recordRequest(res.statusCode));
+    }
+    handleRequest(req, res, context).catch((err) => {
       console.error("[oauth-proxy] Unhandled error:", err);
       if (!res.headersSent) {
         res.writeHead(500, { "Content-Type": "application/json" });
@@ -83,8 +521,67 @@ export function createOAuthProxy(options: OAuthProxyOptions): OAuthProxy {
 
   return {
     async start() {
-      // Refresh token immediately if it is already expired.
-      tokenState = await ensureValidToken(tokenState);
+      if (replay) {
+        context.replay = await loadReplaySource(replay.file, replay.match);
+        console.log(
+          `[oauth-proxy] Replaying ${context.replay.remaining} recorded exchanges from ${replay.file} (match: ${replay.match})`,
+        );
+      } else if (apiKeyUpstream) {
+        console.log(
+          `[oauth-proxy] Forwarding to ${apiKeyUpstream.url} with an API key (${apiKeyUpstream.style} style)`,
+        );
+      } else if (local) {
+        console.log(
+          `[oauth-proxy] Forwarding to the local provider at ${local.baseUrl}`,
+        );
+      } else {
+        // Refresh tokens immediately if they are already expired.  One
+        // usable account is enough to start.
+        const results = await Promise.allSettled(
+          pool!.accounts.map((account) => ensureToken(account)),
+        );
+        results.forEach((result, index) => {
+          if (result.status === "rejected" && results.length > 1) {
+            console.error(
+              `[oauth-proxy] ${pool!.accounts[index].label} is unusable:`,
+              result.reason,
+            );
+          }
+        });
+        const failures = results.filter(
+          (result): result is PromiseRejectedResult =>
+            result.status === "rejected",
+        );
+        if (failures.length === results.length) {
+          throw failures[0].reason;
+        }
+        pool!.accounts.forEach((account) => scheduleProactiveRefresh(account));
+      }
+      await writeUsage();
+
+      if (options.transcriptFile) {
+        context.transcript = await createTranscriptRecorder(
+          options.transcriptFile,
+          () => [
+            ...tokenStates().flatMap((state) => [
+              state.accessToken,
+              state.refreshToken,
+            ]),
+            apiKey?.key ?? "",
+            ...Object.values(localUpstream?.headers ?? {}),
+          ],
+        );
+        console.log(
+          `[oauth-proxy] Recording transcript to ${options.transcriptFile}`,
+        );
+      }
+
+      if (options.responseStoreDir) {
+        context.responses = await createResponseStore(options.responseStoreDir);
+        console.log(
+          `[oauth-proxy] Storing responses in ${options.responseStoreDir}`,
+        );
+      }
 
       await new Promise<void>((resolve, reject) => {
         server.listen(0, "127.0.0.1", async () => {
@@ -98,6 +595,12 @@ export function createOAuthProxy(options: OAuthProxyOptions): OAuthProxy {
           console.log(`[oauth-proxy] Listening on 127.0.0.1:${port}`);
 
           try {
+            // Written before the server info file, whose appearance signals
+            // readiness to the action.
+            await writeClientSecretFile(clientSecretFile, clientSecret);
+            console.log(
+              `[oauth-proxy] Client secret written to ${clientSecretFile}`,
+            );
             await writeFile(
               serverInfoFile,
               JSON.stringify({ port, pid: process.pid }),
@@ -117,8 +620,12 @@ export function createOAuthProxy(options: OAuthProxyOptions): OAuthProxy {
       });
     },
 
-    stop() {
+    async stop() {
+      stopped = true;
+      refreshTimers.forEach((timer) => clearTimeout(timer));
       server.close();
+      await persistTokenState();
+      await usageWrite;
     },
   };
 }
@@ -127,13 +634,139 @@ export function createOAuthProxy(options: OAuthProxyOptions): OAuthProxy {
 // Request handler
 // ---------------------------------------------------------------------------
 
+interface HealthReport {
+  status: "ok" | "unhealthy";
+  mode: "oauth" | "relay" | "replay" | "api-key" | "local";
+  uptime_seconds: number;
+  /**
+   * The account new requests start on; `null` in the modes without OAuth
+   * tokens.
+   */
+  token: TokenHealth | null;
+  /** Every account in the pool, in configuration order. */
+  accounts: TokenHealth[];
+}
+
+interface TokenHealth {
+  expires_at: string;
+  expires_in_seconds: number;
+  has_account_id: boolean;
+  last_refresh_error: string | null;
+  /** When the account's usage limit resets, if it is cooling down. */
+  cooldown_until: string | null;
+}
+
+/** Per-proxy state shared with every request. */
+interface ProxyContext {
+  /**
+   * `null` in replay, API-key and local provider mode, which hold no OAuth
+   * tokens.
+   */
+  accounts: AccountPool | null;
+  /**
+   * Return the account's token state, refreshed if needed so it is valid for
+   * at least the next minute.
+   */
+  ensureToken(account: PoolAccount): Promise<TokenState>;
+  /** Secret every client request (except `/healthz`) must present. */
+  clientSecret: string;
+  health(): HealthReport;
+  metrics: ProxyMetrics;
+  backendUrl: string;
+  retryPolicy: RetryPolicy;
+  models: ModelResolver;
+  planGating: PlanGating;
+  /** Normalized models to retry with when the requested one is unavailable. */
+  modelFallbacks: string[];
+  transcript: TranscriptRecorder | null;
+  replay: ReplaySource | null;
+  responses: ResponseStore | null;
+  /** Upstream of API-key mode, or `null` in the OAuth modes. */
+  apiKey: ReturnType<typeof resolveApiKeyUpstream> | null;
+  /** Upstream of local provider mode. */
+  local: ReturnType<typeof resolveLocalProvider> | null;
+  /**
+   * Count a validated `/v1/responses` call against the run budget.  Returns the reason
+   * the call must be refused, or `null` if it may proceed.
+   */
+  admitRequest(): string | null;
+  /** Observe an SSE event from the upstream response to a `model` request. */
+  onUpstreamEvent(event: UpstreamEvent, model: string): void;
+  /** Note that a `requested` model request was served by `used` instead. */
+  onModelFallback(requested: string, used: string): void;
+}
+
 async function handleRequest(
   req: IncomingMessage,
   res: ServerResponse,
-  tokenState: TokenState,
+  context: ProxyContext,
 ): Promise<void> {
-  // Only accept POST /v1/responses
-  if (req.method !== "POST" || !req.url?.startsWith("/v1/responses")) {
+  if (req.method === "GET" && req.url === "/healthz") {
+    const report = context.health();
+    res.writeHead(report.status === "ok" ? 200 : 503, {
+      "Content-Type": "application/json",
+    });
+    res.end(JSON.stringify(report));
+    return;
+  }
+
+  // Everything but the health check requires the per-run client secret.
+  if (!isAuthorizedClient(req, context.clientSecret)) {
+    res.writeHead(401, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({ error: "Missing or invalid proxy client secret" }),
+    );
+    return;
+  }
+
+  if (req.method === "GET" && req.url === "/metrics") {
+    res.writeHead(200, {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+    });
+    res.end(context.metrics.render());
+    return;
+  }
+
+  const storedMatch =
+    req.method === "GET" ? req.url?.match(/^\/v1\/responses\/([^/?]+)/) : null;
+  if (storedMatch) {
+    const id = decodeURIComponent(storedMatch[1]);
+    const stored = context.responses?.get(id);
+    // The OpenAI API and self-hosted servers keep responses themselves.
+    const upstreamUrl = context.apiKey?.url ?? context.local?.responsesUrl;
+    if (!stored && upstreamUrl) {
+      await retrieveResponse(req, res, id, context, {
+        url: upstreamUrl,
+        headers: context.apiKey?.credentials ?? context.local!.headers,
+      });
+      return;
+    }
+    if (!stored) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: {
+            type: "invalid_request_error",
+            code: "response_not_found",
+            message: context.responses
+              ? `Response with id '${storedMatch[1]}' not found.`
+              : "The proxy's response store is not enabled.",
+          },
+        }),
+      );
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(stored.response));
+    return;
+  }
+
+  // Only accept POST /v1/responses and POST /v1/chat/completions
+  const isChat = req.url?.startsWith("/v1/chat/completions") === true;
+  if (
+    req.method !== "POST" ||
+    (!req.url?.startsWith("/v1/responses") && !isChat)
+  ) {
     res.writeHead(404, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: "Not found" }));
     return;
@@ -150,45 +783,500 @@ async function handleRequest(
     return;
   }
 
-  // Ensure we have a valid token
-  try {
-    await ensureValidToken(tokenState);
-  } catch (err) {
-    console.error("[oauth-proxy] Token refresh failed:", err);
-    res.writeHead(401, { "Content-Type": "application/json" });
-    res.end(
-      JSON.stringify({ error: "OAuth token refresh failed. Re-authenticate." }),
-    );
+  if (context.local) {
+    // The server implements the API itself, so the request goes to the same
+    // endpoint unchanged.
+    const { chatUrl, responsesUrl, headers } = context.local;
+    if (refuseOverBudget(res, context)) return;
+    await forwardDirect(req, res, body, null, context, {
+      url: isChat ? chatUrl : responsesUrl,
+      headers,
+      chatWire: isChat,
+    });
+    return;
+  }
+
+  let chat: ChatCompletionOptions | null = null;
+  if (isChat) {
+    const chatBody = body as unknown as ChatCompletionRequest;
+    try {
+      body = chatRequestToResponses(chatBody);
+    } catch (err) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: {
+            type: "invalid_request_error",
+            message: err instanceof Error ? err.message : String(err),
+          },
+        }),
+      );
+      return;
+    }
+    chat = {
+      model: chatBody.model,
+      includeUsage: chatBody.stream_options?.include_usage === true,
+    };
+  }
+
+  if (context.apiKey) {
+    if (refuseOverBudget(res, context)) return;
+    await forwardDirect(req, res, body, chat, context, {
+      url: context.apiKey.url,
+      headers: context.apiKey.credentials,
+    });
     return;
   }
 
+  // Expand references to stored responses, which the backend cannot resolve.
+  let storeEvent: ((event: UpstreamEvent) => void) | undefined;
+  if (context.responses) {
+    const expanded = context.responses.expand(body);
+    if (expanded.type === "not_found") {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: {
+            type: "invalid_request_error",
+            code: expanded.code,
+            message: expanded.message,
+          },
+        }),
+      );
+      return;
+    }
+    if (expanded.changed) {
+      body.input = expanded.input;
+    }
+    delete body.previous_response_id;
+    // As with the Responses API, responses are stored unless opted out.
+    if (body.store !== false) {
+      storeEvent = context.responses.capture(expanded);
+    }
+  }
+
+  // Only requests that passed validation count against the budget.
+  if (refuseOverBudget(res, context)) return;
+
   // Transform the request
-  const { transformed, wasStreaming } = transformRequestBody(body);
+  const { transformed, wasStreaming } = transformRequestBody(
+    body,
+    context.models,
+  );
+
+  // Adapts streaming vs JSON, remaps errors and, for Chat Completions
+  // requests, translates the response back.
+  const forward = (upstream: Response, observer: ResponseObserver) =>
+    chat
+      ? handleChatCompletionResponse(
+          upstream,
+          res,
+          wasStreaming,
+          observer,
+          chat,
+        )
+      : handleUpstreamResponse(upstream, res, wasStreaming, observer);
+
+  if (context.replay) {
+    const recorded = context.replay.respond(transformed);
+    if (!recorded) {
+      console.error("[oauth-proxy] No recorded exchange matches the request");
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "No recorded exchange matches this request (replay mode)",
+        }),
+      );
+      return;
+    }
+    await forward(recorded, {
+      onEvent: (event) => {
+        context.onUpstreamEvent(event, transformed.model);
+        storeEvent?.(event);
+      },
+      onBytes: (bytes) => context.metrics.addBytesStreamed(bytes),
+    });
+    return;
+  }
+
+  // Models to try in order: the requested one, then the configured fallbacks.
+  const modelChain = [
+    transformed.model,
+    ...context.modelFallbacks.filter((model) => model !== transformed.model),
+  ];
+  // Models the backend reported as not found or not supported.
+  const unavailableModels = new Set<string>();
+  let fellBack = false;
+
+  // Try each usable account in turn until one is not usage-limited.
+  const candidates = context.accounts!.candidates();
+  accounts: for (const [index, account] of candidates.entries()) {
+    const isLastCandidate = index === candidates.length - 1;
+
+    // Ensure we have a valid token
+    let tokenState: TokenState;
+    try {
+      tokenState = await context.ensureToken(account);
+    } catch (err) {
+      console.error(
+        `[oauth-proxy] Token refresh failed for ${account.label}:`,
+        err,
+      );
+      if (!isLastCandidate) continue;
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "OAuth token refresh failed. Re-authenticate.",
+        }),
+      );
+      return;
+    }
+
+    for (const [modelIndex, model] of modelChain.entries()) {
+      if (unavailableModels.has(model)) continue;
+      const hasFallback = modelChain
+        .slice(modelIndex + 1)
+        .some((fallback) => !unavailableModels.has(fallback));
+
+      // Check the model against the account's plan before spending a request.
+      const gate = gateModel(model, tokenState, account, context.planGating);
+      if (gate.type === "rejected") {
+        console.warn(
+          `[oauth-proxy] ${gate.message} ${hasFallback ? "Trying the next fallback model." : isLastCandidate ? "Rejecting the request." : "Trying the next account."}`,
+        );
+        if (hasFallback) {
+          fellBack = true;
+          continue;
+        }
+        if (!isLastCandidate) continue accounts;
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: {
+              type: "invalid_request_error",
+              code: "model_not_entitled",
+              message: gate.message,
+            },
+          }),
+        );
+        return;
+      }
+      const requestBody =
+        gate.model === transformed.model
+          ? transformed
+          : { ...transformed, model: gate.model };
+
+      // Forward to ChatGPT backend
+      const url = context.backendUrl;
+      const headers = createHeaders(
+        tokenState.accessToken,
+        tokenState.accountId,
+      );
+      const startedAt = Date.now();
+      const entry: TranscriptEntry = {
+        timestamp: new Date(startedAt).toISOString(),
+        request: {
+          url,
+          headers,
+          body: requestBody,
+          // Replay looks exchanges up by the request as it arrives, before
+          // plan gating or a fallback swaps the model.
+          hash: hashRequestBody(transformed),
+        },
+        response: {
+          status: null,
+          headers_ms: null,
+          duration_ms: 0,
+          events: [],
+        },
+      };
+
+      let upstream: Response;
+      try {
+        upstream = await fetchWithRetry(
+          url,
+          {
+            method: "POST",
+            headers,
+            body: JSON.stringify(requestBody),
+          },
+          context.retryPolicy,
+        );
+      } catch (err) {
+        console.error("[oauth-proxy] Upstream request failed:", err);
+        res.writeHead(502, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Failed to reach ChatGPT backend" }));
+        entry.response.error = err instanceof Error ? err.message : String(err);
+        entry.response.duration_ms = Date.now() - startedAt;
+        await context.transcript?.record(entry);
+        return;
+      }
+      entry.response.status = upstream.status;
+      entry.response.headers_ms = Date.now() - startedAt;
+      context.metrics.observeUpstreamLatency(entry.response.headers_ms / 1000);
+
+      const mayBeUsageLimit =
+        upstream.status === 404 || upstream.status === 429;
+      const mayBeModelUnavailable =
+        hasFallback && (upstream.status === 400 || upstream.status === 404);
+      if ((mayBeUsageLimit && !isLastCandidate) || mayBeModelUnavailable) {
+        // Nothing has been sent downstream yet, so the request can move on to
+        // the next account or model.  The body has to be read to tell, though.
+        const body = await upstream.text().catch(() => "");
+        entry.response.error_body = body;
+        if (mayBeUsageLimit && !isLastCandidate && isUsageLimitBody(body)) {
+          const until = context.accounts!.markUsageLimited(account, body);
+          console.warn(
+            `[oauth-proxy] ${account.label} hit its usage limit (resets ${new Date(until).toISOString()}); retrying on the next account`,
+          );
+          entry.response.duration_ms = Date.now() - startedAt;
+          entry.internal = true;
+          await context.transcript?.record(entry);
+          continue accounts;
+        }
+        if (mayBeModelUnavailable && isModelUnavailableBody(body)) {
+          unavailableModels.add(model);
+          fellBack = true;
+          console.warn(
+            `[oauth-proxy] Model ${requestBody.model} is not available upstream (${upstream.status}); retrying with the next fallback model`,
+          );
+          entry.response.duration_ms = Date.now() - startedAt;
+          entry.internal = true;
+          await context.transcript?.record(entry);
+          continue;
+        }
+        upstream = new Response(body, {
+          status: upstream.status,
+          headers: upstream.headers,
+        });
+      }
+
+      if (fellBack && upstream.ok) {
+        context.onModelFallback(transformed.model, requestBody.model);
+      }
+
+      await forward(upstream, {
+        onEvent: (event) => {
+          context.onUpstreamEvent(event, requestBody.model);
+          storeEvent?.(event);
+          if (context.transcript) {
+            entry.response.events.push(event);
+          }
+        },
+        onErrorBody: (body) => {
+          entry.response.error_body = body;
+          if (mayBeUsageLimit && isUsageLimitBody(body)) {
+            context.accounts!.markUsageLimited(account, body);
+          }
+        },
+        onBytes: (bytes) => context.metrics.addBytesStreamed(bytes),
+      });
+      entry.response.duration_ms = Date.now() - startedAt;
+      await context.transcript?.record(entry);
+      return;
+    }
+  }
+}
+
+/** Upstream endpoint of the API-key and local provider modes. */
+interface DirectTarget {
+  url: string;
+  /** Credentials or static headers added to the client's headers. */
+  headers: Record<string, string>;
+  /** Whether the upstream speaks Chat Completions rather than Responses. */
+  chatWire?: boolean;
+}
+
+/**
+ * API-key and local provider modes: send the request upstream as is, apart
+ * from Chat Completions requests translated for the Responses API, which are
+ * always streamed.
+ */
+async function forwardDirect(
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: RequestBody,
+  chat: ChatCompletionOptions | null,
+  context: ProxyContext,
+  target: DirectTarget,
+): Promise<void> {
+  const wasStreaming = body.stream === true;
+  if (chat) {
+    body.stream = true;
+  }
+
+  const { url } = target;
+  const headers = {
+    ...forwardedHeaders(req),
+    "Content-Type": "application/json",
+    ...target.headers,
+  };
+  const startedAt = Date.now();
+  const entry: TranscriptEntry = {
+    timestamp: new Date(startedAt).toISOString(),
+    request: { url, headers, body, hash: hashRequestBody(body) },
+    response: { status: null, headers_ms: null, duration_ms: 0, events: [] },
+  };
 
-  // Forward to ChatGPT backend
-  const headers = createHeaders(tokenState.accessToken, tokenState.accountId);
   let upstream: Response;
   try {
-    upstream = await fetch(getBackendUrl(), {
-      method: "POST",
-      headers,
-      body: JSON.stringify(transformed),
-    });
+    upstream = await fetchWithRetry(
+      url,
+      { method: "POST", headers, body: JSON.stringify(body) },
+      context.retryPolicy,
+    );
   } catch (err) {
     console.error("[oauth-proxy] Upstream request failed:", err);
     res.writeHead(502, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Failed to reach ChatGPT backend" }));
+    res.end(JSON.stringify({ error: "Failed to reach the upstream API" }));
+    entry.response.error = err instanceof Error ? err.message : String(err);
+    entry.response.duration_ms = Date.now() - startedAt;
+    await context.transcript?.record(entry);
     return;
   }
+  entry.response.status = upstream.status;
+  entry.response.headers_ms = Date.now() - startedAt;
+  context.metrics.observeUpstreamLatency(entry.response.headers_ms / 1000);
+
+  const observer: ResponseObserver = {
+    onEvent: (event) => {
+      const usageEvent = target.chatWire ? chatUsageEvent(event) : event;
+      if (usageEvent) {
+        context.onUpstreamEvent(usageEvent, body.model);
+      }
+      if (context.transcript) {
+        entry.response.events.push(event);
+      }
+    },
+    onErrorBody: (errorBody) => {
+      entry.response.error_body = errorBody;
+    },
+    onBytes: (bytes) => context.metrics.addBytesStreamed(bytes),
+  };
+  if (chat) {
+    await handleChatCompletionResponse(
+      upstream,
+      res,
+      wasStreaming,
+      observer,
+      chat,
+    );
+  } else {
+    await passThroughResponse(upstream, res, observer);
+  }
+  entry.response.duration_ms = Date.now() - startedAt;
+  await context.transcript?.record(entry);
+}
 
-  // Handle the response (adapts streaming vs JSON, remaps errors)
-  await handleUpstreamResponse(upstream, res, wasStreaming);
+/**
+ * API-key and local provider modes: fetch `GET /v1/responses/{id}` from the
+ * upstream, which stores responses itself.
+ */
+async function retrieveResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  id: string,
+  context: ProxyContext,
+  target: DirectTarget,
+): Promise<void> {
+  const url = new URL(target.url);
+  url.pathname = `${url.pathname.replace(/\/+$/, "")}/${encodeURIComponent(id)}`;
+  // Keep the client's query (e.g. `include[]`) next to Azure's `api-version`.
+  new URL(req.url ?? "", "http://proxy").searchParams.forEach((value, name) =>
+    url.searchParams.append(name, value),
+  );
+
+  let upstream: Response;
+  try {
+    upstream = await fetchWithRetry(
+      url.href,
+      {
+        method: "GET",
+        headers: { ...forwardedHeaders(req), ...target.headers },
+      },
+      context.retryPolicy,
+    );
+  } catch (err) {
+    console.error("[oauth-proxy] Upstream request failed:", err);
+    res.writeHead(502, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Failed to reach the upstream API" }));
+    return;
+  }
+  await passThroughResponse(upstream, res, {
+    onBytes: (bytes) => context.metrics.addBytesStreamed(bytes),
+  });
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Apply the plan gating policy to a request for `model` on `account`.
+ * Returns the model to send, or why the request must be refused.
+ */
+function gateModel(
+  model: string,
+  state: TokenState,
+  account: PoolAccount,
+  gating: PlanGating,
+): { type: "allowed"; model: string } | { type: "rejected"; message: string } {
+  const planType = getPlanType(state.accessToken);
+  if (gating.mode === "off" || isModelEntitled(model, planType)) {
+    return { type: "allowed", model };
+  }
+
+  const fallback = gating.fallbackModel;
+  if (
+    gating.mode === "downgrade" &&
+    fallback &&
+    isModelEntitled(fallback, planType)
+  ) {
+    console.warn(
+      `[oauth-proxy] Model ${model} is not included in the ChatGPT ${planType} plan of ${account.label}; downgrading to ${fallback}`,
+    );
+    return { type: "allowed", model: fallback };
+  }
+
+  const available = PLAN_ENTITLEMENTS[planType!].join(", ");
+  return {
+    type: "rejected",
+    message:
+      gating.mode === "downgrade"
+        ? `Model ${model} is not included in the ChatGPT ${planType} plan of ${account.label}, and neither is the fallback model ${fallback}. Available models: ${available}.`
+        : `Model ${model} is not included in the ChatGPT ${planType} plan of ${account.label}. Available models: ${available}. Choose one of them, or set plan-gating to downgrade with a plan-fallback-model.`,
+  };
+}
+
+/**
+ * Count a validated request against the run budget, answering it with 403 if
+ * the budget is spent.  Returns whether the request was refused.
+ */
+function refuseOverBudget(res: ServerResponse, context: ProxyContext): boolean {
+  const refusal = context.admitRequest();
+  if (refusal == null) {
+    return false;
+  }
+  res.writeHead(403, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: {
+        type: "budget_exceeded",
+        code: "budget_exceeded",
+        message: `${refusal}. The codex-action budget for this run is spent.`,
+      },
+    }),
+  );
+  return true;
+}
+
+/** Health checks and scrapes are not counted as proxied requests. */
+function isMonitoringRequest(req: IncomingMessage): boolean {
+  return (
+    req.method === "GET" && (req.url === "/healthz" || req.url === "/metrics")
+  );
+}
+
 function readBody(req: IncomingMessage): Promise<string> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
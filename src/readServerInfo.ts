@@ -4,8 +4,17 @@ import * as fs from "fs/promises";
 /**
  * In theory, this is not called until `serverInfoFile` is non-empty, but we
  * will poll in the rare case that it was a partial write.
+ *
+ * If `clientSecretFile` is given, the per-run client secret is published as a
+ * masked `client-secret` output and the file is removed so the secret does
+ * not linger on disk, unless `keepClientSecretFile` is set because a later
+ * run of the action will reuse the proxy and needs the secret again.
  */
-export async function readServerInfo(serverInfoFile: string): Promise<void> {
+export async function readServerInfo(
+  serverInfoFile: string,
+  clientSecretFile?: string,
+  keepClientSecretFile = false
+): Promise<void> {
   for (let attempt = 0; attempt < 100; attempt++) {
     try {
       const contents = await fs.readFile(serverInfoFile, { encoding: "utf8" });
@@ -15,6 +24,9 @@ export async function readServerInfo(serverInfoFile: string): Promise<void> {
       }
 
       core.setOutput("port", port.toString());
+      if (clientSecretFile != null) {
+        await publishClientSecret(clientSecretFile, keepClientSecretFile);
+      }
       return;
     } catch (error) {
       console.error(`Error reading server info: ${error}`);
@@ -25,6 +37,24 @@ export async function readServerInfo(serverInfoFile: string): Promise<void> {
   throw Error(`Failed to read server info from ${serverInfoFile}`);
 }
 
+async function publishClientSecret(
+  clientSecretFile: string,
+  keepFile: boolean
+): Promise<void> {
+  const secret = (
+    await fs.readFile(clientSecretFile, { encoding: "utf8" })
+  ).trim();
+  if (secret.length === 0) {
+    throw Error(`Client secret file ${clientSecretFile} is empty`);
+  }
+
+  core.setSecret(secret);
+  core.setOutput("client-secret", secret);
+  if (!keepFile) {
+    await fs.rm(clientSecretFile, { force: true });
+  }
+}
+
 async function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,43 @@
+import * as core from "@actions/core";
+
+import { readUsageFile } from "./oauth/usageTracker";
+
+/**
+ * Publish the token usage totals written by the OAuth proxy as step outputs.
+ * A missing file (e.g. the proxy never served a request) yields zeroes.
+ *
+ * `budget-exceeded` is `true` if the proxy refused calls because the run's
+ * token or request budget was spent.  `model-used` is the model that served
+ * the last completed response, which differs from the requested one when the
+ * proxy fell back to another model.
+ */
+export async function readUsage(usageFile: string): Promise<void> {
+  let report;
+  try {
+    report = await readUsageFile(usageFile);
+  } catch (error) {
+    console.error(`Error reading usage from ${usageFile}: ${error}`);
+    report = null;
+  }
+
+  const totals = report?.totals;
+  core.setOutput("tokens-input", String(totals?.input_tokens ?? 0));
+  core.setOutput("tokens-cached", String(totals?.cached_tokens ?? 0));
+  core.setOutput("tokens-output", String(totals?.output_tokens ?? 0));
+  core.setOutput("tokens-reasoning", String(totals?.reasoning_tokens ?? 0));
+  core.setOutput("tokens-total", String(totals?.total_tokens ?? 0));
+  core.setOutput("tokens-by-model", JSON.stringify(report?.models ?? {}));
+
+  for (const fallback of report?.model_fallbacks ?? []) {
+    core.warning(
+      `Model ${fallback.requested} was unavailable; the proxy used ${fallback.used} instead`
+    );
+  }
+  core.setOutput("model-used", report?.model_used ?? "");
+
+  const budgetExceeded = report?.budget?.exceeded ?? null;
+  if (budgetExceeded != null) {
+    core.warning(`Codex run stopped by the proxy budget: ${budgetExceeded}`);
+  }
+  core.setOutput("budget-exceeded", String(budgetExceeded != null));
+}
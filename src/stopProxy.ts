@@ -0,0 +1,58 @@
+import * as fs from "fs/promises";
+
+/**
+ * Stop the proxy described by `serverInfoFile` with SIGTERM and wait until
+ * its process has exited, by which point it has written its final token
+ * state and usage.  Does nothing if the proxy is not running.
+ */
+export async function stopProxy(
+  serverInfoFile: string,
+  timeoutMs: number
+): Promise<void> {
+  let pid: unknown;
+  try {
+    ({ pid } = JSON.parse(
+      await fs.readFile(serverInfoFile, { encoding: "utf8" })
+    ));
+  } catch (error) {
+    console.log(`No proxy to stop (${error}).`);
+    return;
+  }
+  if (typeof pid !== "number") {
+    throw Error(`Server info file ${serverInfoFile} has no pid`);
+  }
+
+  try {
+    process.kill(pid, "SIGTERM");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ESRCH") {
+      console.log(`Proxy (pid ${pid}) is not running.`);
+      return;
+    }
+    throw error;
+  }
+
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (!isRunning(pid)) {
+      console.log(`Proxy (pid ${pid}) stopped.`);
+      return;
+    }
+    await sleep(100);
+  }
+
+  throw Error(`Proxy (pid ${pid}) did not stop within ${timeoutMs}ms`);
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
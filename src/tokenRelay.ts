@@ -0,0 +1,335 @@
+/**
+ * Self-hostable token relay for the OAuth proxy's relay mode.
+ *
+ * Holds a single ChatGPT OAuth token pair in an encrypted file and hands out
+ * short-lived access tokens to workflows, so the refresh token never leaves
+ * the relay host.  Because refresh tokens rotate on every use, all refreshes
+ * happen here, one at a time.
+ *
+ * - `GET /token`: `{ access_token, expires_at }` (ms) for a caller presenting
+ *   a configured relay key or an authorized GitHub Actions OIDC ID token as
+ *   `Authorization: Bearer <credential>`.  The token is refreshed first if it
+ *   expires within a minute.
+ * - `GET /healthz`: unauthenticated liveness check; `503` while a rotated
+ *   token pair has not been written to the store yet.
+ *
+ * Every `/token` call is appended to a JSONL audit log with the name of the
+ * key or OIDC rule that matched (never the credential itself) and, for OIDC
+ * callers, the workflow run's identifying claims.
+ *
+ * Usage:
+ *   const relay = createTokenRelay({ storeFile, passphrase, keys, auditLogFile });
+ *   await relay.start();
+ *   // ...
+ *   await relay.stop();
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { appendFile, chmod, writeFile } from "node:fs/promises";
+
+import {
+  readEncryptedTokenFile,
+  writeEncryptedTokenFile,
+} from "./oauth/encryptedTokenStore";
+import {
+  loadTokens,
+  refreshTokenState,
+  shouldRefreshToken,
+  type TokenState,
+} from "./oauth/tokenManager";
+import {
+  createKeyAuthenticator,
+  createOidcAuthenticator,
+  type OidcOptions,
+  type RelayPrincipal,
+} from "./tokenRelayAuth";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TokenRelayOptions {
+  /** Encrypted token file written by `writeEncryptedTokenFile`. */
+  storeFile: string;
+  /** Passphrase the store file is encrypted with. */
+  passphrase: string;
+  /** Relay keys accepted from callers, by name. */
+  keys?: Record<string, string>;
+  /** Accept GitHub Actions OIDC ID tokens matching these rules. */
+  oidc?: OidcOptions;
+  /** JSONL file to which every token request is appended. */
+  auditLogFile: string;
+  /** Address to listen on (default `127.0.0.1`). */
+  host?: string;
+  /** Port to listen on (default 8787; 0 picks a free port). */
+  port?: number;
+  /** Override for the OAuth token endpoint used to refresh. */
+  tokenUrl?: string;
+}
+
+export interface TokenRelay {
+  start(): Promise<{ host: string; port: number }>;
+  stop(): Promise<void>;
+}
+
+/** One line of the audit log. */
+interface AuditEntry {
+  timestamp: string;
+  /** Name of the relay key or OIDC rule that matched, or `null`. */
+  key: string | null;
+  /** Identifying claims of an OIDC caller. */
+  claims?: RelayPrincipal["claims"];
+  remote_address: string | null;
+  outcome: "served" | "unauthorized" | "refresh_failed" | "persist_failed";
+  /** Expiry (ms) of the access token that was served. */
+  expires_at?: number;
+}
+
+export const TOKEN_RELAY_PATH = "/token";
+const DEFAULT_PORT = 8787;
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+export function createTokenRelay(options: TokenRelayOptions): TokenRelay {
+  const { storeFile, passphrase, auditLogFile } = options;
+  const host = options.host ?? "127.0.0.1";
+
+  const hasKeys = Object.keys(options.keys ?? {}).length > 0;
+  if (!hasKeys && !options.oidc) {
+    throw new Error(
+      "The token relay needs at least one relay key or OIDC configuration",
+    );
+  }
+  const keyAuthenticator = hasKeys
+    ? createKeyAuthenticator(options.keys!)
+    : null;
+  const oidcAuthenticator = options.oidc
+    ? createOidcAuthenticator(options.oidc)
+    : null;
+
+  let state: TokenState | null = null;
+
+  // Serialize audit log appends so concurrent requests never interleave lines.
+  let auditWrite: Promise<void> = Promise.resolve();
+  const audit = (entry: Omit<AuditEntry, "timestamp">): Promise<void> => {
+    const line = `${JSON.stringify({ timestamp: new Date().toISOString(), ...entry })}\n`;
+    auditWrite = auditWrite
+      .then(() => appendFile(auditLogFile, line))
+      .catch((err) => {
+        console.error("[token-relay] Failed to write audit log:", err);
+      });
+    return auditWrite;
+  };
+
+  /** Principal presenting the credential in `req`, or `null`. */
+  const authenticate = async (
+    req: IncomingMessage,
+  ): Promise<RelayPrincipal | null> => {
+    const presented = req.headers.authorization
+      ?.match(/^Bearer\s+(.+)$/i)?.[1]
+      ?.trim();
+    if (!presented) {
+      return null;
+    }
+    // Only JWT-shaped credentials can be ID tokens.
+    const looksLikeJwt = presented.split(".").length === 3;
+    return (
+      (looksLikeJwt && oidcAuthenticator
+        ? await oidcAuthenticator(presented)
+        : null) ??
+      (keyAuthenticator ? await keyAuthenticator(presented) : null)
+    );
+  };
+
+  // Refresh and persist as one unit shared by all concurrent callers, so the
+  // store is written once per rotation.
+  let refreshing: Promise<TokenState> | null = null;
+  // Set while the pair in memory has been rotated but not written yet.  Its
+  // refresh token is the only live one, so nothing is served until a retried
+  // write succeeds.
+  let unpersisted = false;
+
+  const persist = async (current: TokenState): Promise<void> => {
+    await writeEncryptedTokenFile(storeFile, passphrase, {
+      access_token: current.accessToken,
+      refresh_token: current.refreshToken,
+      expires_at: current.expires,
+    });
+    unpersisted = false;
+    console.log(`[token-relay] Rotated token pair written to ${storeFile}`);
+  };
+
+  const refreshAndPersist = async (
+    current: TokenState,
+  ): Promise<TokenState> => {
+    if (!unpersisted) {
+      await refreshTokenState(current);
+      // The old refresh token is now dead; losing the new one would lock the
+      // relay out, so persist it before serving anything.
+      unpersisted = true;
+    }
+    await persist(current);
+    return current;
+  };
+
+  const ensureFreshToken = (current: TokenState): Promise<TokenState> => {
+    if (!unpersisted && !shouldRefreshToken(current)) {
+      return Promise.resolve(current);
+    }
+    refreshing ??= refreshAndPersist(current).finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((err) => {
+      console.error("[token-relay] Unhandled error:", err);
+      if (!res.headersSent) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+      }
+      res.end(JSON.stringify({ error: "Internal token relay error" }));
+    });
+  });
+
+  async function handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const path = req.url?.split("?")[0];
+
+    if (req.method === "GET" && path === "/healthz") {
+      sendJson(res, unpersisted ? 503 : 200, {
+        status: unpersisted ? "unpersisted" : "ok",
+      });
+      return;
+    }
+
+    if (req.method !== "GET" || path !== TOKEN_RELAY_PATH) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    const remoteAddress = req.socket.remoteAddress ?? null;
+    let principal: RelayPrincipal | null;
+    try {
+      principal = await authenticate(req);
+    } catch (err) {
+      // e.g. the OIDC issuer's signing keys could not be fetched
+      console.error("[token-relay] Failed to verify credential:", err);
+      principal = null;
+    }
+    if (principal == null) {
+      await audit({
+        key: null,
+        remote_address: remoteAddress,
+        outcome: "unauthorized",
+      });
+      sendJson(res, 401, { error: "Missing or invalid relay credential" });
+      return;
+    }
+    const key = principal.name;
+    const claims = principal.claims;
+
+    let current: TokenState;
+    try {
+      current = await ensureFreshToken(state!);
+    } catch (err) {
+      if (unpersisted) {
+        console.error("[token-relay] Failed to write the token store:", err);
+        await audit({
+          key,
+          claims,
+          remote_address: remoteAddress,
+          outcome: "persist_failed",
+        });
+        sendJson(res, 503, { error: "Failed to persist the OAuth token pair" });
+        return;
+      }
+      console.error("[token-relay] Token refresh failed:", err);
+      await audit({
+        key,
+        claims,
+        remote_address: remoteAddress,
+        outcome: "refresh_failed",
+      });
+      sendJson(res, 502, { error: "Failed to refresh the OAuth access token" });
+      return;
+    }
+
+    await audit({
+      key,
+      claims,
+      remote_address: remoteAddress,
+      outcome: "served",
+      expires_at: current.expires,
+    });
+    console.log(
+      claims
+        ? `[token-relay] Served access token to ${claims.repository} (${claims.ref}, run ${claims.run_id}) via "${key}"`
+        : `[token-relay] Served access token to key "${key}"`,
+    );
+    sendJson(res, 200, {
+      access_token: current.accessToken,
+      expires_at: current.expires,
+    });
+  }
+
+  return {
+    async start() {
+      const pair = await readEncryptedTokenFile(storeFile, passphrase);
+      state = loadTokens(pair.access_token, pair.refresh_token);
+      state.tokenUrl = options.tokenUrl;
+      console.log(`[token-relay] Loaded token pair from ${storeFile}`);
+
+      // Create the audit log owner-only; later appends keep the mode.
+      await writeFile(auditLogFile, "", { flag: "a", mode: 0o600 });
+      await chmod(auditLogFile, 0o600);
+
+      return new Promise((resolve, reject) => {
+        server.listen(options.port ?? DEFAULT_PORT, host, () => {
+          const addr = server.address();
+          if (!addr || typeof addr === "string") {
+            reject(new Error("Failed to bind server"));
+            return;
+          }
+          console.log(`[token-relay] Listening on ${host}:${addr.port}`);
+          resolve({ host, port: addr.port });
+        });
+
+        server.on("error", reject);
+      });
+    },
+
+    async stop() {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      if (unpersisted) {
+        await persist(state!).catch((err) => {
+          console.error(
+            "[token-relay] Failed to write the token store; the live refresh token is lost:",
+            err,
+          );
+        });
+      }
+      await auditWrite;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,166 @@
+import { generateKeyPairSync, sign, type KeyObject } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import {
+  createKeyAuthenticator,
+  createOidcAuthenticator,
+  type OidcRule,
+} from "./tokenRelayAuth";
+
+describe("createKeyAuthenticator", () => {
+  const authenticate = createKeyAuthenticator({
+    ci: "key-one",
+    nightly: "key-two",
+  });
+
+  it("resolves a key to its name", async () => {
+    expect(await authenticate("key-one")).toEqual({ name: "ci" });
+    expect(await authenticate("key-two")).toEqual({ name: "nightly" });
+  });
+
+  it("rejects unknown keys, prefixes and the empty string", async () => {
+    expect(await authenticate("key-three")).toBeNull();
+    expect(await authenticate("key-")).toBeNull();
+    expect(await authenticate("key-one ")).toBeNull();
+    expect(await authenticate("")).toBeNull();
+  });
+});
+
+describe("createOidcAuthenticator", () => {
+  const audience = "codex-token-relay";
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const { privateKey: otherKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+
+  let server: Server;
+  let issuer: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      if (req.url === "/.well-known/openid-configuration") {
+        res.end(JSON.stringify({ jwks_uri: `${issuer}/jwks` }));
+      } else {
+        const jwk = publicKey.export({ format: "jwk" });
+        res.end(JSON.stringify({ keys: [{ ...jwk, kid: "key-1" }] }));
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  function token(
+    claims: Record<string, unknown>,
+    key: KeyObject = privateKey,
+    header: Record<string, unknown> = { alg: "RS256", kid: "key-1" },
+  ): string {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const signed = `${encode(header)}.${encode({
+      iss: issuer,
+      aud: audience,
+      exp: now() + 300,
+      iat: now(),
+      repository: "my-org/my-repo",
+      ref: "refs/heads/main",
+      workflow: "Codex review",
+      run_id: "42",
+      ...claims,
+    })}`;
+    return `${signed}.${sign("RSA-SHA256", Buffer.from(signed), key).toString("base64url")}`;
+  }
+
+  const authenticator = (rules: OidcRule[]) =>
+    createOidcAuthenticator({ audience, rules, issuer });
+
+  it("accepts a valid token that matches a rule", async () => {
+    const authenticate = authenticator([
+      { name: "main", repository: "my-org/my-repo", ref: "refs/heads/main" },
+    ]);
+    expect(await authenticate(token({}))).toEqual({
+      name: "oidc:main",
+      claims: {
+        repository: "my-org/my-repo",
+        ref: "refs/heads/main",
+        workflow: "Codex review",
+        run_id: "42",
+      },
+    });
+  });
+
+  it("matches `*` against any run of characters", async () => {
+    const authenticate = authenticator([
+      { name: "org", repository: "my-org/*", workflow: "Codex *" },
+    ]);
+    expect((await authenticate(token({})))?.name).toBe("oidc:org");
+    expect(
+      await authenticate(token({ repository: "other-org/my-repo" })),
+    ).toBeNull();
+  });
+
+  it("matches other characters literally", async () => {
+    const authenticate = authenticator([{ name: "dot", repository: "a.b/c" }]);
+    expect((await authenticate(token({ repository: "a.b/c" })))?.name).toBe(
+      "oidc:dot",
+    );
+    expect(await authenticate(token({ repository: "axb/c" }))).toBeNull();
+  });
+
+  it("uses the first rule that matches", async () => {
+    const authenticate = authenticator([
+      { name: "release", ref: "refs/tags/*" },
+      { name: "any" },
+    ]);
+    expect((await authenticate(token({})))?.name).toBe("oidc:any");
+    expect((await authenticate(token({ ref: "refs/tags/v1" })))?.name).toBe(
+      "oidc:release",
+    );
+  });
+
+  it("rejects tokens whose claims match no rule", async () => {
+    const authenticate = authenticator([
+      { name: "main", repository: "my-org/my-repo", ref: "refs/heads/main" },
+    ]);
+    expect(await authenticate(token({ ref: "refs/heads/fork" }))).toBeNull();
+  });
+
+  it("rejects the wrong audience, issuer or an expired token", async () => {
+    const authenticate = authenticator([{ name: "any" }]);
+    expect(await authenticate(token({ aud: "something-else" }))).toBeNull();
+    expect(await authenticate(token({ aud: ["x", audience] }))).not.toBeNull();
+    expect(
+      await authenticate(token({ iss: "https://example.com" })),
+    ).toBeNull();
+    expect(await authenticate(token({ exp: now() - 120 }))).toBeNull();
+    expect(await authenticate(token({ nbf: now() + 120 }))).toBeNull();
+  });
+
+  it("rejects bad signatures and unsupported headers", async () => {
+    const authenticate = authenticator([{ name: "any" }]);
+    expect(await authenticate(token({}, otherKey))).toBeNull();
+    expect(
+      await authenticate(token({}, privateKey, { alg: "none", kid: "key-1" })),
+    ).toBeNull();
+    expect(
+      await authenticate(token({}, privateKey, { alg: "RS256", kid: "nope" })),
+    ).toBeNull();
+    expect(await authenticate("not-a-jwt")).toBeNull();
+  });
+
+  it("needs at least one rule", () => {
+    expect(() => authenticator([])).toThrow();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Caller authentication for the token relay.
+ *
+ * Two kinds of bearer credentials are accepted:
+ * - Static relay keys, configured by name.
+ * - GitHub Actions OIDC ID tokens, verified against the issuer's JWKS and
+ *   authorized by rules on the `repository`, `ref` and `workflow` claims, so
+ *   workflows need no long-lived secret at all.
+ */
+
+import {
+  createHash,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Who fetched a token, as recorded in the audit log. */
+export interface RelayPrincipal {
+  /** Relay key name, or `oidc:<rule name>` for an OIDC caller. */
+  name: string;
+  /** Identifying claims of an OIDC caller. */
+  claims?: {
+    repository: string;
+    ref: string;
+    workflow: string;
+    run_id: string;
+  };
+}
+
+/**
+ * Resolve a bearer credential to a principal, or `null` if it is not
+ * accepted.
+ */
+export type RelayAuthenticator = (
+  bearer: string,
+) => Promise<RelayPrincipal | null>;
+
+/**
+ * A caller is authorized if every field set on some rule matches the
+ * corresponding claim.  `*` in a pattern matches any run of characters.
+ */
+export interface OidcRule {
+  name: string;
+  /** e.g. `my-org/my-repo` or `my-org/*` */
+  repository?: string;
+  /** e.g. `refs/heads/main` */
+  ref?: string;
+  /** Workflow name, e.g. `Codex review` */
+  workflow?: string;
+}
+
+export interface OidcOptions {
+  /** Expected `aud` claim, matching the action's `token-relay-audience`. */
+  audience: string;
+  rules: OidcRule[];
+  /** Defaults to the GitHub Actions issuer. */
+  issuer?: string;
+}
+
+export const GITHUB_ACTIONS_ISSUER =
+  "https://token.actions.githubusercontent.com";
+
+/** Allowed clock skew when checking `exp`, `nbf` and `iat`. */
+const CLOCK_SKEW_SECONDS = 60;
+/** How long fetched signing keys are trusted before being fetched again. */
+const JWKS_TTL_MS = 60 * 60_000;
+/** Minimum time between fetches triggered by an unknown key ID. */
+const JWKS_MIN_REFETCH_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Relay keys
+// ---------------------------------------------------------------------------
+
+export function createKeyAuthenticator(
+  keys: Record<string, string>,
+): RelayAuthenticator {
+  const digests = Object.entries(keys).map(([name, key]) => ({
+    name,
+    digest: sha256(key),
+  }));
+
+  return async (bearer) => {
+    // Compare digests so every comparison is constant-time and equal-length.
+    const digest = sha256(bearer);
+    const match = digests.find((key) => timingSafeEqual(key.digest, digest));
+    return match ? { name: match.name } : null;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GitHub Actions OIDC
+// ---------------------------------------------------------------------------
+
+export function createOidcAuthenticator(
+  options: OidcOptions,
+): RelayAuthenticator {
+  const issuer = (options.issuer ?? GITHUB_ACTIONS_ISSUER).replace(/\/$/, "");
+  if (options.rules.length === 0) {
+    throw new Error("OIDC authentication needs at least one rule");
+  }
+
+  let signingKeys: Map<string, KeyObject> | null = null;
+  let fetchedAt = 0;
+
+  const getSigningKey = async (kid: string): Promise<KeyObject | null> => {
+    const age = Date.now() - fetchedAt;
+    // Refetch on an unknown key ID too, since the issuer rotates its keys,
+    // but not so often that bogus tokens can make us hammer the issuer.
+    const unknownKid =
+      signingKeys != null && !signingKeys.has(kid) && age > JWKS_MIN_REFETCH_MS;
+    if (signingKeys == null || age > JWKS_TTL_MS || unknownKid) {
+      signingKeys = await fetchSigningKeys(issuer);
+      fetchedAt = Date.now();
+    }
+    return signingKeys.get(kid) ?? null;
+  };
+
+  return async (bearer) => {
+    const parts = bearer.split(".");
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    let header: { alg?: string; kid?: string };
+    let claims: Record<string, unknown>;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], "base64url").toString());
+      claims = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+    } catch {
+      return null;
+    }
+    if (header.alg !== "RS256" || typeof header.kid !== "string") {
+      return null;
+    }
+
+    const key = await getSigningKey(header.kid);
+    if (
+      !key ||
+      !verify(
+        "RSA-SHA256",
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        key,
+        Buffer.from(parts[2], "base64url"),
+      )
+    ) {
+      return null;
+    }
+
+    if (!hasValidRegisteredClaims(claims, issuer, options.audience)) {
+      return null;
+    }
+
+    const subject = {
+      repository: String(claims.repository ?? ""),
+      ref: String(claims.ref ?? ""),
+      workflow: String(claims.workflow ?? ""),
+      run_id: String(claims.run_id ?? ""),
+    };
+    const rule = options.rules.find(
+      (candidate) =>
+        matches(candidate.repository, subject.repository) &&
+        matches(candidate.ref, subject.ref) &&
+        matches(candidate.workflow, subject.workflow),
+    );
+    return rule ? { name: `oidc:${rule.name}`, claims: subject } : null;
+  };
+}
+
+function hasValidRegisteredClaims(
+  claims: Record<string, unknown>,
+  issuer: string,
+  audience: string,
+): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  const aud = claims.aud;
+  const audiences = Array.isArray(aud) ? aud : [aud];
+  return (
+    claims.iss === issuer &&
+    audiences.includes(audience) &&
+    typeof claims.exp === "number" &&
+    claims.exp + CLOCK_SKEW_SECONDS > now &&
+    (typeof claims.nbf !== "number" ||
+      claims.nbf - CLOCK_SKEW_SECONDS <= now) &&
+    (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS <= now)
+  );
+}
+
+async function fetchSigningKeys(
+  issuer: string,
+): Promise<Map<string, KeyObject>> {
+  const discovery = await fetchJson(
+    `${issuer}/.well-known/openid-configuration`,
+  );
+  const jwksUri = (discovery as { jwks_uri?: unknown }).jwks_uri;
+  if (typeof jwksUri !== "string") {
+    throw new Error(`OIDC discovery document of ${issuer} has no jwks_uri`);
+  }
+
+  const jwks = (await fetchJson(jwksUri)) as {
+    keys?: Array<JsonWebKey & { kid?: string }>;
+  };
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of jwks.keys ?? []) {
+    if (jwk.kty === "RSA" && typeof jwk.kid === "string") {
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+    }
+  }
+  return keys;
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`GET ${url} returned ${res.status}`);
+  }
+  return res.json();
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** An unset pattern matches anything. */
+function matches(pattern: string | undefined, value: string): boolean {
+  if (pattern == null) {
+    return true;
+  }
+  const regex = new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+  );
+  return regex.test(value);
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
@@ -0,0 +1,41 @@
+import * as fs from "fs/promises";
+
+/**
+ * Wait until the OAuth proxy has written its server info file *and* reports
+ * itself healthy on `GET /healthz`, so later steps never race a proxy that is
+ * still starting up (or one that started with unusable credentials).
+ */
+export async function waitForProxy(
+  serverInfoFile: string,
+  timeoutMs: number
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  let lastProblem = "server info file not written yet";
+
+  while (Date.now() < deadline) {
+    try {
+      const contents = await fs.readFile(serverInfoFile, { encoding: "utf8" });
+      const { port } = JSON.parse(contents);
+      if (typeof port === "number") {
+        const response = await fetch(`http://127.0.0.1:${port}/healthz`);
+        const report = await response.text();
+        if (response.ok) {
+          console.log(`Proxy is healthy: ${report}`);
+          return;
+        }
+        lastProblem = `/healthz returned ${response.status}: ${report}`;
+      }
+    } catch (error) {
+      lastProblem = `${error}`;
+    }
+    await sleep(250);
+  }
+
+  throw Error(
+    `Proxy did not become healthy within ${timeoutMs}ms (${lastProblem})`
+  );
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -3,15 +3,35 @@ import * as path from "node:path";
 import * as os from "node:os";
 import { SafetyStrategy } from "./runCodexExec";
 import { checkOutput } from "./checkOutput";
+import { CLIENT_SECRET_HEADER } from "./oauth/clientAuth";
 
 const MODEL_PROVIDER = "codex-action-responses-proxy";
 
-export async function writeProxyConfig(
-  codexHome: string,
-  port: number,
-  safetyStrategy: SafetyStrategy,
-  workingDirectory?: string
-): Promise<void> {
+/**
+ * API Codex uses to talk to the proxy: `chat` for local providers that only
+ * implement Chat Completions.
+ */
+export type WireApi = "responses" | "chat";
+
+export async function writeProxyConfig({
+  codexHome,
+  port,
+  safetyStrategy,
+  workingDirectory,
+  clientSecret,
+  codexUser,
+  wireApi = "responses",
+}: {
+  codexHome: string;
+  port: number;
+  safetyStrategy: SafetyStrategy;
+  workingDirectory?: string;
+  /** Per-run secret the OAuth proxy requires from its clients. */
+  clientSecret?: string;
+  /** Owner of the config file when safety strategy is 'unprivileged-user'. */
+  codexUser?: string;
+  wireApi?: WireApi;
+}): Promise<void> {
   const configPath = path.join(codexHome, "config.toml");
 
   let existing = "";
@@ -26,14 +46,17 @@ model_provider = "${MODEL_PROVIDER}"
 
 
 `;
+  const httpHeaders = clientSecret
+    ? `http_headers = { "${CLIENT_SECRET_HEADER}" = ${JSON.stringify(clientSecret)} }\n`
+    : "";
   const table = `
 
 # Added by codex-action.
 [model_providers.${MODEL_PROVIDER}]
 name = "Codex Action Responses Proxy"
 base_url = "http://127.0.0.1:${port}/v1"
-wire_api = "responses"
-`;
+wire_api = "${wireApi}"
+${httpHeaders}`;
 
   // Trust the working directory so project-level config (MCP servers, etc.) is loaded.
   const trust = workingDirectory
@@ -51,11 +74,20 @@ wire_api = "responses"
       const tempConfigPath = path.join(tempDir, "config.toml");
       await fs.writeFile(tempConfigPath, output, "utf8");
       await checkOutput(["sudo", "mv", tempConfigPath, configPath]);
+      if (clientSecret && codexUser) {
+        // The file now holds the proxy secret, so only Codex may read it.
+        await checkOutput(["sudo", "chown", codexUser, configPath]);
+        await checkOutput(["sudo", "chmod", "600", configPath]);
+      }
     } finally {
       await fs.rm(tempDir, { recursive: true, force: true });
     }
   } else {
     await fs.mkdir(codexHome, { recursive: true });
     await fs.writeFile(configPath, output, "utf8");
+    if (clientSecret) {
+      // The file now holds the proxy secret, so keep it owner-only.
+      await fs.chmod(configPath, 0o600);
+    }
   }
 }